@@ -6,7 +6,17 @@ import { getRootData } from "@sapphire/pieces";
 import { join } from "path";
 
 import { LoggerService } from "@/services/logger.service.js";
-import { HuntbotModelService } from "@/services/huntbot/index.js";
+import { Redactor } from "@/services/redaction/index.js";
+import { DatabaseService, Migrator, loadMigrations } from "@/services/database/index.js";
+import { CommandHistory } from "@/services/history/index.js";
+import { UserService, getOwnerIds } from "@/services/user/index.js";
+import { AuditLog } from "@/services/audit/index.js";
+import { GuildAccess } from "@/services/guild/index.js";
+import { ModelRegistry, ModelWatcher } from "@/services/registry/index.js";
+import { loadManifests, registerManifestModels, type ModelServiceOptions } from "@/services/manifest/index.js";
+import { InferencePool } from "@/services/inference/index.js";
+import { PostgresResultCacheBackend, ResultCache } from "@/services/cache/index.js";
+import { DEFAULT_IMAGE_FETCHER_CONFIG, ImageFetcher } from "@/services/fetch/index.js";
 
 
 export class BotClient extends SapphireClient {
@@ -30,25 +40,138 @@ export class BotClient extends SapphireClient {
     }
 
     async initContainer() {
-        container.register(TOKENS.Logger, new LoggerService());
-        container.register(TOKENS.DB, {}); // Placeholder for DB instance
-        container.register(TOKENS.UserService, {}); // Placeholder for UserService instance
-        container.register(TOKENS.HuntbotModel, HuntbotModelService.getInstance());
+        // Shared by the logger and the command log webhook
+        container.register(TOKENS.Redactor, Redactor.fromEnv());
+        container.registerFactory(TOKENS.Logger, c => LoggerService.fromEnv(process.env, c.resolve(TOKENS.Redactor)));
 
-        container.resolve<LoggerService>(TOKENS.Logger).debug("Container initialized with services.");
+        // Postgres is optional, features backed by it are skipped without DATABASE_URL
+        if (process.env.DATABASE_URL) {
+            const migrationsDir = join(getRootData().root, "migrations");
+            container.registerFactory(TOKENS.DB, c => new DatabaseService({
+                connectionString: process.env.DATABASE_URL!,
+                maxConnections: Number(process.env.DATABASE_POOL_SIZE ?? 10),
+                statementTimeoutMs: Number(process.env.DATABASE_STATEMENT_TIMEOUT_MS ?? 15_000),
+                ssl: process.env.DATABASE_SSL === "true",
+            }, c.resolve(TOKENS.Logger)), {
+                init: async db => {
+                    await db.connect();
+                    await new Migrator(db, container.resolve(TOKENS.Logger)).migrate(await loadMigrations(migrationsDir));
+                },
+                dispose: db => db.close(),
+            });
+
+            container.registerFactory(TOKENS.CommandHistory, c => new CommandHistory(c.resolve(TOKENS.DB), c.resolve(TOKENS.Logger)));
+
+            // Accounts and quotas live in the database, commands run unmetered without it
+            container.registerFactory(TOKENS.UserService, c => new UserService({ ownerIds: getOwnerIds() }, c.resolve(TOKENS.DB), c.resolve(TOKENS.Logger)));
+            container.registerFactory(TOKENS.AuditLog, c => new AuditLog(c.resolve(TOKENS.DB), c.resolve(TOKENS.Logger)));
+        }
+
+        // Guilds allowed from the environment, plus those allowed or denied through /admin when a database is configured
+        const allowedGuildIds = (process.env.ALLOWED_GUILD_IDS ?? "").split(",").map(id => id.trim()).filter(Boolean);
+        container.registerFactory(TOKENS.GuildAccess, c => new GuildAccess(
+            { allowedGuildIds },
+            c.resolve(TOKENS.Logger),
+            c.has(TOKENS.DB) ? c.resolve(TOKENS.DB) : null
+        ), { init: guilds => guilds.load() });
+
+        // Extra hosts can be trusted on top of the Discord CDN
+        const extraHosts = (process.env.IMAGE_ALLOWED_HOSTS ?? "").split(",").map(host => host.trim()).filter(Boolean);
+        container.registerFactory(TOKENS.ImageFetcher, c => new ImageFetcher({
+            allowedHosts: [...DEFAULT_IMAGE_FETCHER_CONFIG.allowedHosts, ...extraHosts],
+        }, c.resolve(TOKENS.Logger)));
+
+        // Run ONNX sessions in worker threads unless disabled with INFERENCE_WORKERS=0
+        const workers = Number(process.env.INFERENCE_WORKERS ?? 1);
+        if (workers > 0) {
+            container.registerFactory(TOKENS.InferencePool, c => new InferencePool({
+                workers,
+                maxQueueSize: Number(process.env.INFERENCE_QUEUE_SIZE ?? 64),
+            }, c.resolve(TOKENS.Logger)), { dispose: pool => pool.destroy() });
+        }
+
+        // Serve repeated images from memory unless disabled with RESULT_CACHE_SIZE=0, backed by Postgres when configured
+        const cacheSize = Number(process.env.RESULT_CACHE_SIZE ?? 500);
+        if (cacheSize > 0) {
+            container.registerFactory(TOKENS.ResultCache, c => new ResultCache({
+                maxEntries: cacheSize,
+                ttlMs: Number(process.env.RESULT_CACHE_TTL_MS ?? 10 * 60 * 1000),
+            }, c.resolve(TOKENS.Logger), c.has(TOKENS.DB)
+                ? new PostgresResultCacheBackend(c.resolve(TOKENS.DB), c.resolve(TOKENS.Logger))
+                : undefined
+            ), { init: cache => cache.prune() });
+        }
+
+        const modelsDir = join(getRootData().root, "models");
+        const manifests = await loadManifests(modelsDir);
+
+        // Load every model during initialize() so signature mismatches fail at startup
+        container.registerFactory(TOKENS.ModelRegistry, c => {
+            const logger = c.resolve(TOKENS.Logger);
+            const modelOptions: ModelServiceOptions = { logger };
+            if (c.has(TOKENS.InferencePool)) {
+                const pool = c.resolve(TOKENS.InferencePool);
+                modelOptions.sessionFactory = (model, options) => pool.createSession(model, options);
+            }
+            if (c.has(TOKENS.ResultCache)) {
+                modelOptions.cache = c.resolve(TOKENS.ResultCache);
+            }
+
+            logger.info(`Loaded ${manifests.length} model manifest(s): ${manifests.map(m => `${m.id}@${m.version}`).join(", ")}`);
+            return registerManifestModels(new ModelRegistry(logger), manifests, modelOptions);
+        }, {
+            init: registry => registry.initializeAll(),
+            dispose: registry => registry.disposeAll(),
+        });
+
+        // Swap in replaced .onnx files without a restart
+        if (process.env.MODEL_HOT_RELOAD === "true") {
+            container.registerFactory(TOKENS.ModelWatcher, c => new ModelWatcher(c.resolve(TOKENS.ModelRegistry), modelsDir, c.resolve(TOKENS.Logger)), {
+                init: watcher => watcher.start(),
+                dispose: watcher => watcher.stop(),
+            });
+        }
+
+        await container.initialize();
+        container.resolve(TOKENS.Logger).debug("Container initialized with services.");
     }
 
     async start() {
-        await this.initContainer();
-        const logger = container.resolve<LoggerService>(TOKENS.Logger);
+        try {
+            await this.initContainer();
+        } catch (error) {
+            this.logFatal("Failed to initialize services:", error);
+            process.exit(1);
+        }
+
+        const logger = container.resolve(TOKENS.Logger);
 
         try {
             logger.info("Attempting to login to Discord...");
             await this.login(process.env.BOT_TOKEN!);
         } catch (error) {
-            logger.error("Failed to login to Discord:");
-            logger.error(error instanceof Error ? error.message : String(error));
+            logger.error("Failed to login to Discord:", error);
             process.exit(1);
         }
     }
+
+    /**
+     * Log a startup failure with its stack and cause, on the console when the logger itself failed to build
+     */
+    private logFatal(message: string, error: unknown): void {
+        let logger: LoggerService;
+        try {
+            logger = container.resolve(TOKENS.Logger);
+        } catch {
+            console.error(message, error);
+            return;
+        }
+
+        logger.error(message, error);
+    }
+
+    override async destroy() {
+        await container.disposeAll();
+        return super.destroy();
+    }
 }
\ No newline at end of file
@@ -0,0 +1,379 @@
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+import { InvalidInputError } from "@/errors/index.js";
+import { DEFAULT_TIER_QUOTAS, type QuotaUsage, type UserTier } from "@/services/user/index.js";
+import type { AuditAction } from "@/services/audit/index.js";
+import type { QueryExecutor } from "@/services/database/index.js";
+import { Subcommand } from "@sapphire/plugin-subcommands";
+import { MessageFlags } from "discord.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNOWFLAKE = /^\d{17,20}$/;
+
+/**
+ * Commands offered as choices for quota subcommands
+ */
+const QUOTA_COMMANDS = [...new Set(Object.values(DEFAULT_TIER_QUOTAS).flatMap(quotas => Object.keys(quotas)))];
+
+export class AdminCommand extends Subcommand {
+    constructor(context: Subcommand.LoaderContext, options: Subcommand.Options) {
+        super(context, {
+            ...options,
+            name: "admin",
+            description: "Manage users, quotas and guilds (owner only).",
+            preconditions: ["OwnerOnly"],
+            subcommands: [
+                {
+                    name: "user",
+                    type: "group",
+                    entries: [
+                        { name: "grant", chatInputRun: "chatInputUserGrant" },
+                        { name: "revoke", chatInputRun: "chatInputUserRevoke" },
+                        { name: "info", chatInputRun: "chatInputUserInfo" },
+                    ]
+                },
+                {
+                    name: "quota",
+                    type: "group",
+                    entries: [
+                        { name: "set", chatInputRun: "chatInputQuotaSet" },
+                        { name: "reset", chatInputRun: "chatInputQuotaReset" },
+                    ]
+                },
+                {
+                    name: "guild",
+                    type: "group",
+                    entries: [
+                        { name: "allow", chatInputRun: "chatInputGuildAllow" },
+                        { name: "deny", chatInputRun: "chatInputGuildDeny" },
+                    ]
+                },
+                {
+                    name: "stats",
+                    chatInputRun: "chatInputStats",
+                }
+            ]
+        });
+    }
+
+    public override registerApplicationCommands(registry: Subcommand.Registry): void {
+        registry.registerChatInputCommand((builder) =>
+            builder
+                .setName(this.name)
+                .setDescription(this.description)
+                .addSubcommandGroup((group) =>
+                    group
+                        .setName("user")
+                        .setDescription("Manage user tiers.")
+                        .addSubcommand((subcommand) =>
+                            subcommand
+                                .setName("grant")
+                                .setDescription("Give a user the paid tier.")
+                                .addUserOption((option) =>
+                                    option
+                                        .setName("user")
+                                        .setDescription("The user.")
+                                        .setRequired(true)
+                                )
+                                .addIntegerOption((option) =>
+                                    option
+                                        .setName("days")
+                                        .setDescription("Days until the tier expires, never by default.")
+                                        .setMinValue(1)
+                                )
+                        )
+                        .addSubcommand((subcommand) =>
+                            subcommand
+                                .setName("revoke")
+                                .setDescription("Put a user back on the free tier.")
+                                .addUserOption((option) =>
+                                    option
+                                        .setName("user")
+                                        .setDescription("The user.")
+                                        .setRequired(true)
+                                )
+                        )
+                        .addSubcommand((subcommand) =>
+                            subcommand
+                                .setName("info")
+                                .setDescription("Show a user's tier, usage and recent changes.")
+                                .addUserOption((option) =>
+                                    option
+                                        .setName("user")
+                                        .setDescription("The user.")
+                                        .setRequired(true)
+                                )
+                        )
+                )
+                .addSubcommandGroup((group) =>
+                    group
+                        .setName("quota")
+                        .setDescription("Manage per-user quotas.")
+                        .addSubcommand((subcommand) =>
+                            subcommand
+                                .setName("set")
+                                .setDescription("Override a user's limits, omit both to restore the tier defaults.")
+                                .addUserOption((option) =>
+                                    option
+                                        .setName("user")
+                                        .setDescription("The user.")
+                                        .setRequired(true)
+                                )
+                                .addStringOption((option) =>
+                                    option
+                                        .setName("command")
+                                        .setDescription("The limited command.")
+                                        .setRequired(true)
+                                        .addChoices(...QUOTA_COMMANDS.map(command => ({ name: command, value: command })))
+                                )
+                                .addIntegerOption((option) =>
+                                    option
+                                        .setName("daily")
+                                        .setDescription("Uses per day.")
+                                        .setMinValue(0)
+                                )
+                                .addIntegerOption((option) =>
+                                    option
+                                        .setName("monthly")
+                                        .setDescription("Uses per month.")
+                                        .setMinValue(0)
+                                )
+                        )
+                        .addSubcommand((subcommand) =>
+                            subcommand
+                                .setName("reset")
+                                .setDescription("Clear a user's usage for today and this month.")
+                                .addUserOption((option) =>
+                                    option
+                                        .setName("user")
+                                        .setDescription("The user.")
+                                        .setRequired(true)
+                                )
+                                .addStringOption((option) =>
+                                    option
+                                        .setName("command")
+                                        .setDescription("Only reset this command.")
+                                        .addChoices(...QUOTA_COMMANDS.map(command => ({ name: command, value: command })))
+                                )
+                        )
+                )
+                .addSubcommandGroup((group) =>
+                    group
+                        .setName("guild")
+                        .setDescription("Manage where usage-limited commands are available.")
+                        .addSubcommand((subcommand) =>
+                            subcommand
+                                .setName("allow")
+                                .setDescription("Add a guild to the allow list.")
+                                .addStringOption((option) =>
+                                    option
+                                        .setName("guild")
+                                        .setDescription("The guild id, this guild by default.")
+                                )
+                        )
+                        .addSubcommand((subcommand) =>
+                            subcommand
+                                .setName("deny")
+                                .setDescription("Refuse a guild, even when no allow list is active.")
+                                .addStringOption((option) =>
+                                    option
+                                        .setName("guild")
+                                        .setDescription("The guild id, this guild by default.")
+                                )
+                        )
+                )
+                .addSubcommand((subcommand) =>
+                    subcommand
+                        .setName("stats")
+                        .setDescription("Show usage statistics.")
+                )
+        );
+    }
+
+    async chatInputUserGrant(interaction: Subcommand.ChatInputCommandInteraction) {
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+        const target = interaction.options.getUser("user", true);
+        // Owners come from OWNER_IDS only, the owner-only preconditions never look at the stored tier
+        const tier: UserTier = "paid";
+        const days = interaction.options.getInteger("days");
+        const expiresAt = days ? new Date(Date.now() + days * DAY_MS) : null;
+        const users = this.requireUsers();
+
+        await this.audited(interaction, "user.grant", target.id, { tier, expiresAt }, tx =>
+            users.setTier(target.id, tier, expiresAt, tx)
+        );
+
+        return this.reply(interaction, `✓ <@${target.id}> is now on the **${tier}** tier ${expiresAt ? `until ${this.formatTime(expiresAt)}` : "with no expiry"}.`);
+    }
+
+    async chatInputUserRevoke(interaction: Subcommand.ChatInputCommandInteraction) {
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+        const target = interaction.options.getUser("user", true);
+        const users = this.requireUsers();
+
+        await this.audited(interaction, "user.revoke", target.id, {}, tx =>
+            users.setTier(target.id, "free", null, tx)
+        );
+
+        return this.reply(interaction, `✓ <@${target.id}> is back on the **free** tier.`);
+    }
+
+    async chatInputUserInfo(interaction: Subcommand.ChatInputCommandInteraction) {
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+        const target = interaction.options.getUser("user", true);
+        const users = this.requireUsers();
+        const record = await users.ensureUser(target);
+
+        const lines = [
+            `**${target.username}** (<@${target.id}>)`,
+            `Tier: **${record.effectiveTier}**${record.effectiveTier !== record.tier ? ` (stored: ${record.tier})` : ""}`
+                + (record.tierExpiresAt ? `, expires ${this.formatTime(record.tierExpiresAt)}` : ""),
+            `First seen: ${this.formatTime(record.createdAt)}`,
+        ];
+
+        for (const command of users.getQuotaCommands()) {
+            const status = await users.checkQuota(target, command);
+            lines.push(`/${command}: ${this.formatUsage(status.daily)} today, ${this.formatUsage(status.monthly)} this month`);
+        }
+
+        const history = await container.resolve(TOKENS.AuditLog).recent(5, target.id);
+        if (history.length > 0) {
+            lines.push("", "Recent changes:");
+            lines.push(...history.map(entry => `- ${this.formatTime(entry.createdAt)} \`${entry.action}\` by <@${entry.actorId}>`));
+        }
+
+        return this.reply(interaction, lines.join("\n"));
+    }
+
+    async chatInputQuotaSet(interaction: Subcommand.ChatInputCommandInteraction) {
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+        const target = interaction.options.getUser("user", true);
+        const command = interaction.options.getString("command", true);
+        const limits = {
+            daily: interaction.options.getInteger("daily"),
+            monthly: interaction.options.getInteger("monthly"),
+        };
+        const users = this.requireUsers();
+
+        await this.audited(interaction, "quota.set", target.id, { command, ...limits }, tx =>
+            users.setQuotaOverride(target.id, command, limits, tx)
+        );
+
+        if (limits.daily === null && limits.monthly === null) {
+            return this.reply(interaction, `✓ <@${target.id}> uses the tier limits for /${command} again.`);
+        }
+
+        return this.reply(interaction, `✓ <@${target.id}> can use /${command} ${limits.daily ?? "the tier default"} time(s) a day and ${limits.monthly ?? "the tier default"} time(s) a month.`);
+    }
+
+    async chatInputQuotaReset(interaction: Subcommand.ChatInputCommandInteraction) {
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+        const target = interaction.options.getUser("user", true);
+        const command = interaction.options.getString("command");
+        const users = this.requireUsers();
+
+        const removed = await this.audited(interaction, "quota.reset", target.id, { command }, tx =>
+            users.resetUsage(target.id, command, tx)
+        );
+
+        return this.reply(interaction, `✓ Reset ${removed} usage counter(s) of <@${target.id}>${command ? ` for /${command}` : ""}.`);
+    }
+
+    async chatInputGuildAllow(interaction: Subcommand.ChatInputCommandInteraction) {
+        return this.setGuildAccess(interaction, true);
+    }
+
+    async chatInputGuildDeny(interaction: Subcommand.ChatInputCommandInteraction) {
+        return this.setGuildAccess(interaction, false);
+    }
+
+    async chatInputStats(interaction: Subcommand.ChatInputCommandInteraction) {
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+        const client = this.container.client;
+        const guilds = container.resolve(TOKENS.GuildAccess).getSummary();
+        const lines = [
+            `Guilds: ${client.guilds.cache.size} serving, ${guilds.allowed.length} allowed, ${guilds.denied.length} denied`,
+            `Models: ${container.resolve(TOKENS.ModelRegistry).list().map(model => `${model.id}@${model.active?.version ?? "unloaded"}`).join(", ") || "none"}`,
+        ];
+
+        if (container.has(TOKENS.ResultCache)) {
+            const stats = container.resolve(TOKENS.ResultCache).getStats();
+            lines.push(`Cache: ${stats.size} entries, ${stats.hits} hits, ${stats.misses} misses`);
+        }
+
+        if (container.has(TOKENS.DB)) {
+            const tiers = await this.requireUsers().countByTier();
+            lines.push(`Users: ${tiers.free + tiers.paid + tiers.owner} (free ${tiers.free}, paid ${tiers.paid}, owner ${tiers.owner}), ${tiers.expired} expired`);
+
+            const commands = await container.resolve(TOKENS.CommandHistory).usageSince(24);
+            const total = commands.reduce((sum, row) => sum + row.total, 0);
+            const failed = commands.reduce((sum, row) => sum + row.failed, 0);
+            lines.push(`Commands (24h): ${total} runs, ${failed} failed${commands.length > 0 ? ` — ${commands.slice(0, 5).map(row => `/${row.command} ${row.total}`).join(", ")}` : ""}`);
+        }
+
+        return this.reply(interaction, lines.join("\n"));
+    }
+
+    private async setGuildAccess(interaction: Subcommand.ChatInputCommandInteraction, allowed: boolean) {
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+        const guildId = interaction.options.getString("guild") ?? interaction.guildId;
+        if (!guildId || !SNOWFLAKE.test(guildId)) {
+            throw new InvalidInputError(`Invalid guild id ${guildId}`, "Please provide a valid guild id.");
+        }
+
+        this.requireUsers();
+        const guilds = container.resolve(TOKENS.GuildAccess);
+
+        await this.audited(interaction, allowed ? "guild.allow" : "guild.deny", guildId, {}, tx =>
+            guilds.set(guildId, allowed, interaction.user.id, tx)
+        );
+        guilds.apply(guildId, allowed);
+
+        const name = this.container.client.guilds.cache.get(guildId)?.name;
+        return this.reply(interaction, `✓ ${name ? `**${name}** (\`${guildId}\`)` : `\`${guildId}\``} is now ${allowed ? "allowed" : "denied"}.`);
+    }
+
+    /**
+     * Run a change and its audit entry in one transaction
+     */
+    private async audited<T>(
+        interaction: Subcommand.ChatInputCommandInteraction,
+        action: AuditAction,
+        targetId: string,
+        details: Record<string, unknown>,
+        change: (tx: QueryExecutor) => Promise<T>
+    ): Promise<T> {
+        const audit = container.resolve(TOKENS.AuditLog);
+
+        return container.resolve(TOKENS.DB).transaction(async tx => {
+            const result = await change(tx);
+            await audit.record({ actorId: interaction.user.id, action, targetId, details }, tx);
+            return result;
+        });
+    }
+
+    /**
+     * Users, quotas, guild decisions and the audit log all live in the database
+     */
+    private requireUsers() {
+        if (!container.has(TOKENS.UserService)) {
+            throw new InvalidInputError("Admin command used without a database", "This needs a database, set DATABASE_URL to enable it.");
+        }
+        return container.resolve(TOKENS.UserService);
+    }
+
+    /**
+     * Answer the deferred reply, mentions are shown but never ping
+     */
+    private reply(interaction: Subcommand.ChatInputCommandInteraction, content: string) {
+        return interaction.editReply({ content, allowedMentions: { parse: [] } });
+    }
+
+    private formatUsage(usage: QuotaUsage): string {
+        return `${usage.used}/${usage.limit ?? "∞"}`;
+    }
+
+    private formatTime(date: Date): string {
+        return `<t:${Math.floor(date.getTime() / 1000)}:R>`;
+    }
+}
@@ -0,0 +1,159 @@
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+import type { ModelVersion } from "@/services/interfaces/model.interface.js";
+import { Subcommand } from "@sapphire/plugin-subcommands";
+import { AttachmentBuilder, MessageFlags } from "discord.js";
+
+export class ModelCommand extends Subcommand {
+    constructor(context: Subcommand.LoaderContext, options: Subcommand.Options) {
+        super(context, {
+            ...options,
+            name: "model",
+            description: "Manage loaded models (owner only).",
+            preconditions: ["OwnerOnly"],
+            subcommands: [
+                {
+                    name: "status",
+                    chatInputRun: "chatInputStatus",
+                },
+                {
+                    name: "reload",
+                    chatInputRun: "chatInputReload",
+                },
+                {
+                    name: "rollback",
+                    chatInputRun: "chatInputRollback",
+                },
+                {
+                    name: "debug",
+                    chatInputRun: "chatInputDebug",
+                }
+            ]
+        });
+    }
+
+    public override registerApplicationCommands(registry: Subcommand.Registry): void {
+        registry.registerChatInputCommand((builder) =>
+            builder
+                .setName(this.name)
+                .setDescription(this.description)
+                .addSubcommand((subcommand) =>
+                    subcommand
+                        .setName("status")
+                        .setDescription("Show active and previous versions of every model.")
+                )
+                .addSubcommand((subcommand) =>
+                    subcommand
+                        .setName("reload")
+                        .setDescription("Reload a model from its file on disk.")
+                        .addStringOption((option) =>
+                            option
+                                .setName("model")
+                                .setDescription("The model id.")
+                                .setRequired(true)
+                        )
+                )
+                .addSubcommand((subcommand) =>
+                    subcommand
+                        .setName("rollback")
+                        .setDescription("Restore the version active before the last reload.")
+                        .addStringOption((option) =>
+                            option
+                                .setName("model")
+                                .setDescription("The model id.")
+                                .setRequired(true)
+                        )
+                )
+                .addSubcommand((subcommand) =>
+                    subcommand
+                        .setName("debug")
+                        .setDescription("Run a model and show what it saw.")
+                        .addStringOption((option) =>
+                            option
+                                .setName("model")
+                                .setDescription("The model id.")
+                                .setRequired(true)
+                        )
+                        .addAttachmentOption((option) =>
+                            option
+                                .setName("image")
+                                .setDescription("The input image.")
+                                .setRequired(true)
+                        )
+                )
+        );
+    }
+
+    async chatInputStatus(interaction: Subcommand.ChatInputCommandInteraction) {
+        const registry = container.resolve(TOKENS.ModelRegistry);
+        const lines = registry.list().map(model =>
+            `**${model.id}** — active: ${this.formatVersion(model.active)}, previous: ${this.formatVersion(model.previous)}`
+        );
+
+        if (container.has(TOKENS.ResultCache)) {
+            const stats = container.resolve(TOKENS.ResultCache).getStats();
+            lines.push(`Cache: ${stats.size} entries, ${stats.hits} hits, ${stats.misses} misses, ${stats.evictions} evictions`);
+        }
+
+        return interaction.reply({
+            content: lines.join("\n") || "No models registered.",
+            flags: MessageFlags.Ephemeral,
+        });
+    }
+
+    async chatInputReload(interaction: Subcommand.ChatInputCommandInteraction) {
+        return this.swap(interaction, "reload");
+    }
+
+    async chatInputRollback(interaction: Subcommand.ChatInputCommandInteraction) {
+        return this.swap(interaction, "rollback");
+    }
+
+    async chatInputDebug(interaction: Subcommand.ChatInputCommandInteraction) {
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        const id = interaction.options.getString("model", true);
+        const attachment = interaction.options.getAttachment("image", true);
+        const registry = container.resolve(TOKENS.ModelRegistry);
+
+        if (!registry.has(id)) {
+            return interaction.editReply(`Unknown model \`${id}\`.`);
+        }
+
+        const model = await registry.get(id);
+        const image = await container.resolve(TOKENS.ImageFetcher).fetch(attachment.url);
+        const result = await model.predict(image.buffer, { debug: true });
+
+        return interaction.editReply({
+            content: [
+                `**${id}** ${this.formatVersion(result.model ?? null)}`,
+                `Output: \`${model.decoder.toString(result.results) || "—"}\``,
+                `Confidence: ${(model.decoder.getAverageConfidence(result.results) * 100).toFixed(2)}%`,
+                `Time: ${result.inferenceTime?.toFixed(2)}ms`,
+            ].join("\n"),
+            files: (result.debug ?? []).map(debug => new AttachmentBuilder(debug.image, { name: debug.name })),
+        });
+    }
+
+    private async swap(interaction: Subcommand.ChatInputCommandInteraction, action: "reload" | "rollback") {
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        const id = interaction.options.getString("model", true);
+        const registry = container.resolve(TOKENS.ModelRegistry);
+
+        if (!registry.has(id)) {
+            return interaction.editReply(`Unknown model \`${id}\`.`);
+        }
+
+        const version = action === "reload"
+            ? await registry.reload(id)
+            : await registry.rollback(id);
+
+        return interaction.editReply(`✓ ${id} is now ${this.formatVersion(version)}`);
+    }
+
+    private formatVersion(version: ModelVersion | null): string {
+        if (!version) return "—";
+        return `\`${version.version}\` (\`${version.hash}\`, loaded <t:${Math.floor(version.loadedAt.getTime() / 1000)}:R>)`;
+    }
+}
@@ -9,6 +9,7 @@ export default class PingCommand extends Command {
             ...options,
             name: "ping",
             description: "Replies with Pong!",
+            cooldownDelay: 3_000,
         });
     }
 
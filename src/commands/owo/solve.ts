@@ -1,20 +1,9 @@
-import { downloadFile } from "@/utils/download.js";
 import { container } from "@/container/container.js";
 import { TOKENS } from "@/container/tokens.js";
-import { HuntbotModelService } from "@/services/huntbot/index.js";
+import type { HuntbotModelService } from "@/services/huntbot/index.js";
+import { InvalidInputError } from "@/errors/index.js";
 import { Subcommand } from "@sapphire/plugin-subcommands";
 import { MessageFlags } from "discord.js";
-import { fileTypeFromBuffer } from "file-type"
-
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const ALLOWED_MIME_TYPES = ["image/png", "image/webp", "image/jpeg", "image/jpg"];
-const DOWNLOAD_TIMEOUT = 10_000; // 10 seconds
-const ALLOWED_DOMAINS = [
-    "cdn.discordapp.com",
-    "media.discordapp.net",
-    "images-ext-1.discordapp.net",
-    "images-ext-2.discordapp.net"
-]
 
 export class SolveCommand extends Subcommand {
     constructor(context: Subcommand.LoaderContext, options: Subcommand.Options) {
@@ -22,6 +11,8 @@ export class SolveCommand extends Subcommand {
             ...options,
             name: "solve",
             description: "Solves something mysterious.",
+            preconditions: ["GuildAllowList", "QuotaAvailable"],
+            cooldownDelay: 5_000,
             subcommands: [
                 {
                     name: "huntbot",
@@ -60,161 +51,45 @@ export class SolveCommand extends Subcommand {
         const attachment = interaction.options.getAttachment("image");
         const url = interaction.options.getString("url");
 
-        if (!attachment && !url) {
-            return interaction.editReply("Please provide either an image attachment or a URL.");
-        }
-
         const imageUrl = attachment?.url ?? url;
 
         if (!imageUrl) {
-            return interaction.editReply("Could not determine the image URL.");
+            throw new InvalidInputError("No image provided", "Please provide either an image attachment or a URL.");
         }
 
+        // Take the use up front so concurrent solves cannot overshoot the quota, failed solves give it back
+        const users = container.has(TOKENS.UserService) ? container.resolve(TOKENS.UserService) : null;
+        const reservedAt = new Date();
+        await users?.reserveUsage(interaction.user, this.name, reservedAt);
+
         try {
             // Download and validate the image
-            const imageBuffer = await this.downloadAndValidateImage(imageUrl);
+            const image = await container.resolve(TOKENS.ImageFetcher).fetch(imageUrl);
 
-            // Get the Huntbot model service from container
-            const huntbotModel = container.resolve<HuntbotModelService>(TOKENS.HuntbotModel);
+            // Get the Huntbot model service from the registry
+            const registry = container.resolve(TOKENS.ModelRegistry);
+            const huntbotModel = await registry.get<HuntbotModelService>("huntbot");
 
             // Solve the captcha
-            const result = await huntbotModel.predict(imageBuffer);
+            const result = await huntbotModel.predict(image.buffer);
 
             // Format the response
             const password = result.results.map(r => r.value).join("");
             const avgConfidence = huntbotModel.decoder.getAverageConfidence(result.results);
 
-            return interaction.editReply({
+            // Failures are replied to by the shared command error handler
+            return await interaction.editReply({
                 // content: `✓ Solved Huntbot captcha:\n\`\`\`\n${password}\n\`\`\`\nAverage confidence: ${(avgConfidence * 100).toFixed(2)}%\nInference time: ${result.inferenceTime?.toFixed(2)}ms`,
                 content: JSON.stringify({
                     result: password,
                     avgConfidence: (avgConfidence * 100).toFixed(2) + "%",
-                    time: result.inferenceTime?.toFixed(2)
+                    time: result.inferenceTime?.toFixed(2),
+                    model: result.model && `${result.model.version}@${result.model.hash}`
                 }, null, 2),
             });
         } catch (error) {
-            return interaction.editReply({
-                content: `Failed to solve Huntbot captcha:\n\`\`\`${String(error)}\`\`\``,
-            });
-        }
-    }
-
-    /**
-     * Validate URL is from allowed Discord CDN domains
-     */
-    private isValidDiscordUrl(urlString: string): boolean {
-        try {
-            const url = new URL(urlString);
-
-            // Only allow HTTPS
-            if (url.protocol !== "https:") {
-                return false;
-            }
-
-            // Check against allowed domains
-            return ALLOWED_DOMAINS.some(domain =>
-                url.hostname === domain || url.hostname.endsWith(`.${domain}`)
-            );
-        } catch {
-            return false;
-        }
-    }
-
-    /**
- * Verify file is a valid image by checking magic bytes
- */
-    private async isValidImageBuffer(buffer: Buffer): Promise<{ valid: boolean; mimeType?: string }> {
-        const fileType = await fileTypeFromBuffer(buffer);
-        if (!fileType) {
-            return { valid: false };
-        }
-
-        return {
-            valid: ALLOWED_MIME_TYPES.includes(fileType.mime),
-            mimeType: fileType.mime,
-        }
-    }
-
-    /**
-     * Safely download and validate image
-     */
-    private async downloadAndValidateImage(url: string): Promise<Buffer> {
-        // Validate URL
-        if (!this.isValidDiscordUrl(url)) {
-            throw new Error("Invalid or untrusted URL. Only Discord CDN URLs are allowed.");
-        }
-
-        try {
-            // Download with timeout and size limit
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT);
-
-            const response = await fetch(url, {
-                signal: controller.signal,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (compatible; DiscordBot/1.0)',
-                }
-            });
-
-            clearTimeout(timeoutId);
-
-            if (!response.ok) {
-                throw new Error(`Download failed: ${response.status} ${response.statusText}`);
-            }
-
-            // Check Content-Length header
-            const contentLength = response.headers.get("content-length");
-            if (contentLength && parseInt(contentLength) > MAX_FILE_SIZE) {
-                throw new Error(`File too large: ${contentLength} bytes (max: ${MAX_FILE_SIZE} bytes)`);
-            }
-
-            // Check Content-Type header
-            const contentType = response.headers.get("content-type");
-            if (contentType && !ALLOWED_MIME_TYPES.includes(contentType)) {
-                throw new Error(`Invalid content type: ${contentType}. Only images are allowed.`);
-            }
-
-            // Download in chunks to enforce size limit
-            const reader = response.body?.getReader();
-            if (!reader) {
-                throw new Error("Unable to read response body");
-            }
-
-            const chunks: Uint8Array[] = [];
-            let totalSize = 0;
-
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                totalSize += value.length;
-                if (totalSize > MAX_FILE_SIZE) {
-                    reader.cancel();
-                    throw new Error(`File exceeds maximum size of ${MAX_FILE_SIZE} bytes`);
-                }
-
-                chunks.push(value);
-            }
-
-            // Combine chunks into buffer
-            const buffer = Buffer.concat(chunks);
-
-            // Verify file signature (magic bytes)
-            const validation = await this.isValidImageBuffer(buffer);
-            if (!validation.valid) {
-                throw new Error("File is not a valid image (invalid file signature)");
-            }
-
-            return buffer;
-
-        } catch (error) {
-            if (error instanceof Error) {
-                if (error.name === "AbortError") {
-                    throw new Error("Download timed out");
-                }
-                throw error;
-            }
-            throw new Error("Failed to download image");
+            await users?.releaseUsage(interaction.user.id, this.name, reservedAt);
+            throw error;
         }
     }
 }
\ No newline at end of file
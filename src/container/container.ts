@@ -1,17 +1,218 @@
-class Container {
-    private registry = new Map<symbol, any>();
+import type { Token } from "./tokens.js";
 
-    register<T>(token: symbol, instance: T): void {
-        this.registry.set(token, instance);
+/**
+ * How long a resolved instance lives
+ * - singleton: one instance for the whole process
+ * - transient: a new instance on every resolve
+ * - scoped: one instance per scope created with `createScope()`
+ */
+export type Lifetime = "singleton" | "transient" | "scoped";
+
+export type Factory<T> = (container: Container) => T;
+
+export interface ProviderOptions<T> {
+    /**
+     * Defaults to singleton
+     */
+    lifetime?: Lifetime;
+    /**
+     * Async setup awaited by `initialize()`, singletons only
+     */
+    init?: (instance: T) => Promise<void> | void;
+    /**
+     * Cleanup run by `disposeAll()`, transient instances are not tracked
+     */
+    dispose?: (instance: T) => Promise<void> | void;
+}
+
+interface Provider<T> {
+    factory: Factory<T>;
+    lifetime: Lifetime;
+    init?: (instance: T) => Promise<void> | void;
+    dispose?: (instance: T) => Promise<void> | void;
+}
+
+interface CreatedInstance {
+    token: Token<unknown>;
+    instance: unknown;
+    dispose?: (instance: any) => Promise<void> | void;
+}
+
+const describe = (token: Token<unknown>): string => token.description ?? token.toString();
+
+/**
+ * Service container with factories, lifetimes and ordered async setup and teardown
+ */
+export class Container {
+    private readonly providers: Map<Token<unknown>, Provider<any>>;
+    private readonly instances = new Map<Token<unknown>, unknown>();
+    /**
+     * Instances in creation order, dependencies always come before their dependents
+     */
+    private readonly created: CreatedInstance[] = [];
+    private readonly resolving: Token<unknown>[] = [];
+    private readonly ready = new Set<Token<unknown>>();
+    private readonly parent: Container | null;
+    private initialized = false;
+    private initializing = false;
+
+    constructor(parent: Container | null = null) {
+        this.parent = parent;
+        this.providers = parent?.providers ?? new Map();
+    }
+
+    /**
+     * Register an already built singleton
+     */
+    register<T>(token: Token<T>, instance: T, options: Pick<ProviderOptions<T>, "dispose"> = {}): void {
+        this.assertRoot("register");
+        this.providers.set(token, { factory: () => instance, lifetime: "singleton", ...options });
+        this.instances.set(token, instance);
+        this.ready.add(token);
+        this.created.push({ token, instance, ...options });
+    }
+
+    /**
+     * Register a factory, called lazily on first resolve (or on every resolve when transient)
+     */
+    registerFactory<T>(token: Token<T>, factory: Factory<T>, options: ProviderOptions<T> = {}): void {
+        this.assertRoot("register");
+        const { lifetime = "singleton", ...hooks } = options;
+
+        if (hooks.init && lifetime !== "singleton") {
+            throw new Error(`${describe(token)} is ${lifetime}, only singletons can have an initializer`);
+        }
+        if (hooks.init && this.initialized) {
+            throw new Error(`${describe(token)} has an initializer but the container is already initialized`);
+        }
+
+        this.providers.set(token, { factory, lifetime, ...hooks });
     }
 
-    resolve<T>(token: symbol): T {
-        const instance = this.registry.get(token);
-        if (!instance) {
-            throw new Error(`No instance found for token: ${token.toString()}`);
+    has(token: Token<unknown>): boolean {
+        return this.providers.has(token);
+    }
+
+    resolve<T>(token: Token<T>): T {
+        const provider = this.providers.get(token) as Provider<T> | undefined;
+        if (!provider) {
+            throw new Error(`No provider registered for ${describe(token)}`);
+        }
+
+        if (provider.lifetime === "transient") {
+            return this.create(token, provider);
+        }
+
+        if (provider.lifetime === "singleton" && this.parent) {
+            return this.parent.resolve(token);
+        }
+
+        if (provider.lifetime === "scoped" && !this.parent) {
+            throw new Error(`${describe(token)} is scoped, resolve it from a scope created with createScope()`);
+        }
+
+        if (this.instances.has(token)) {
+            this.assertReady(token, provider);
+            return this.instances.get(token) as T;
         }
+
+        this.assertReady(token, provider);
+        const instance = this.create(token, provider);
+        this.instances.set(token, instance);
+        this.created.push({ token, instance, ...(provider.dispose && { dispose: provider.dispose }) });
         return instance;
     }
+
+    /**
+     * Create a child container that shares singletons and owns its scoped instances
+     */
+    createScope(): Container {
+        return new Container(this.parent ?? this);
+    }
+
+    /**
+     * Build every singleton, then await the initializers in creation order
+     * Factories create their dependencies first, so a dependency is always initialized before its dependents
+     * whatever order they were registered in
+     */
+    async initialize(): Promise<void> {
+        this.assertRoot("initialize");
+        if (this.initialized) return;
+
+        this.initializing = true;
+        try {
+            for (const [token, provider] of this.providers) {
+                if (provider.lifetime === "singleton") {
+                    this.resolve(token);
+                }
+            }
+        } finally {
+            this.initializing = false;
+        }
+
+        for (const { token, instance } of [...this.created]) {
+            const provider = this.providers.get(token);
+            if (provider?.init && !this.ready.has(token)) {
+                await provider.init(instance);
+            }
+            this.ready.add(token);
+        }
+        this.initialized = true;
+    }
+
+    /**
+     * Dispose created instances in reverse creation order, so dependents go before their dependencies
+     * Every disposer runs even if an earlier one fails
+     */
+    async disposeAll(): Promise<void> {
+        const errors: unknown[] = [];
+
+        for (const { token, instance, dispose } of this.created.reverse()) {
+            try {
+                await dispose?.(instance);
+            } catch (error) {
+                errors.push(new Error(`Failed to dispose ${describe(token)}`, { cause: error }));
+            }
+        }
+
+        this.created.length = 0;
+        this.instances.clear();
+        this.ready.clear();
+        this.initialized = false;
+
+        if (errors.length > 0) {
+            throw new AggregateError(errors, `Failed to dispose ${errors.length} service(s)`);
+        }
+    }
+
+    private create<T>(token: Token<T>, provider: Provider<T>): T {
+        if (this.resolving.includes(token)) {
+            const cycle = [...this.resolving.slice(this.resolving.indexOf(token)), token].map(describe);
+            throw new Error(`Circular dependency: ${cycle.join(" -> ")}`);
+        }
+
+        this.resolving.push(token);
+        try {
+            return provider.factory(this);
+        } finally {
+            this.resolving.pop();
+        }
+    }
+
+    /**
+     * Services with an initializer must not be used before `initialize()` has run it
+     */
+    private assertReady(token: Token<unknown>, provider: Provider<any>): void {
+        if (provider.init && !this.ready.has(token) && !this.initializing) {
+            throw new Error(`${describe(token)} is not initialized yet, await container.initialize() first`);
+        }
+    }
+
+    private assertRoot(action: string): void {
+        if (this.parent) {
+            throw new Error(`Cannot ${action} on a scope, use the root container`);
+        }
+    }
 }
 
-export const container = new Container();
\ No newline at end of file
+export const container = new Container();
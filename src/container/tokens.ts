@@ -1,6 +1,33 @@
+import type { LoggerService } from "@/services/logger.service.js";
+import type { Redactor } from "@/services/redaction/index.js";
+import type { ModelRegistry, ModelWatcher } from "@/services/registry/index.js";
+import type { InferencePool } from "@/services/inference/index.js";
+import type { ResultCache } from "@/services/cache/index.js";
+import type { ImageFetcher } from "@/services/fetch/index.js";
+import type { DatabaseService } from "@/services/database/index.js";
+import type { UserService } from "@/services/user/index.js";
+import type { CommandHistory } from "@/services/history/index.js";
+import type { AuditLog } from "@/services/audit/index.js";
+import type { GuildAccess } from "@/services/guild/index.js";
+
+/**
+ * Symbol carrying the type of the service it resolves to
+ */
+export type Token<T> = symbol & { readonly __type?: T };
+
+export const createToken = <T>(name: string): Token<T> => Symbol(name) as Token<T>;
+
 export const TOKENS = {
-    Logger: Symbol("Logger"),
-    DB: Symbol("DB"),
-    UserService: Symbol("UserService"),
-    HuntbotModel: Symbol("HuntbotModel"),
-}
\ No newline at end of file
+    Logger: createToken<LoggerService>("Logger"),
+    Redactor: createToken<Redactor>("Redactor"),
+    DB: createToken<DatabaseService>("DB"),
+    UserService: createToken<UserService>("UserService"),
+    CommandHistory: createToken<CommandHistory>("CommandHistory"),
+    AuditLog: createToken<AuditLog>("AuditLog"),
+    GuildAccess: createToken<GuildAccess>("GuildAccess"),
+    ModelRegistry: createToken<ModelRegistry>("ModelRegistry"),
+    ModelWatcher: createToken<ModelWatcher>("ModelWatcher"),
+    InferencePool: createToken<InferencePool>("InferencePool"),
+    ResultCache: createToken<ResultCache>("ResultCache"),
+    ImageFetcher: createToken<ImageFetcher>("ImageFetcher"),
+}
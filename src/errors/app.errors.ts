@@ -0,0 +1,124 @@
+/**
+ * Stable identifiers for error categories
+ */
+export type ErrorCode =
+    | "INVALID_INPUT"
+    | "DOWNLOAD_FAILED"
+    | "MODEL_UNAVAILABLE"
+    | "INFERENCE_FAILED"
+    | "RATE_LIMITED"
+    | "INTERNAL";
+
+export interface AppErrorOptions {
+    cause?: unknown;
+    /**
+     * Internal context for logs, never shown to users
+     */
+    details?: Record<string, unknown>;
+}
+
+/**
+ * Base class for errors with a code and a message safe to show to users
+ * `message` is internal and may contain paths, shapes or upstream errors
+ */
+export abstract class AppError extends Error {
+    public abstract readonly code: ErrorCode;
+    public readonly userMessage: string;
+    public readonly details: Record<string, unknown> | undefined;
+
+    constructor(message: string, userMessage: string, options: AppErrorOptions = {}) {
+        super(message, { cause: options.cause });
+        this.name = new.target.name;
+        this.userMessage = userMessage;
+        this.details = options.details;
+    }
+}
+
+/**
+ * The user supplied something unusable (missing option, unreadable image, ...)
+ */
+export class InvalidInputError extends AppError {
+    public readonly code = "INVALID_INPUT";
+
+    constructor(message: string, userMessage: string = message, options?: AppErrorOptions) {
+        super(message, userMessage, options);
+    }
+}
+
+/**
+ * An input could not be downloaded
+ */
+export class DownloadError extends AppError {
+    public readonly code = "DOWNLOAD_FAILED";
+    /**
+     * Whether another attempt may succeed
+     */
+    public readonly retryable: boolean;
+
+    constructor(message: string, userMessage: string = message, options: AppErrorOptions & { retryable?: boolean } = {}) {
+        super(message, userMessage, options);
+        this.retryable = options.retryable ?? false;
+    }
+}
+
+/**
+ * A model is unknown or failed to load
+ */
+export class ModelUnavailableError extends AppError {
+    public readonly code = "MODEL_UNAVAILABLE";
+
+    constructor(message: string, options?: AppErrorOptions) {
+        super(message, "The model is currently unavailable, please try again later.", options);
+    }
+}
+
+/**
+ * Running a model failed after its input was accepted
+ */
+export class InferenceError extends AppError {
+    public readonly code = "INFERENCE_FAILED";
+
+    constructor(message: string, options?: AppErrorOptions) {
+        super(message, "Something went wrong while processing the image.", options);
+    }
+}
+
+/**
+ * The caller or the bot is over capacity
+ */
+export class RateLimitedError extends AppError {
+    public readonly code = "RATE_LIMITED";
+    public readonly retryAfterMs: number | undefined;
+
+    constructor(message: string, userMessage: string = "Too many requests, please try again shortly.", options: AppErrorOptions & { retryAfterMs?: number } = {}) {
+        super(message, userMessage, options);
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+/**
+ * Fallback for errors that are not part of the taxonomy
+ */
+export class InternalError extends AppError {
+    public readonly code = "INTERNAL";
+
+    constructor(message: string, options?: AppErrorOptions) {
+        super(message, "An unexpected error occurred.", options);
+    }
+}
+
+/**
+ * Wrap unknown errors so callers can rely on `code` and `userMessage`
+ */
+export const toAppError = (error: unknown): AppError => {
+    if (error instanceof AppError) return error;
+
+    return new InternalError(error instanceof Error ? error.message : String(error), { cause: error });
+};
+
+/**
+ * Message of any thrown value, for wrapping into another error
+ */
+export const describeError = (error: unknown): string => {
+    return error instanceof Error ? error.message : String(error);
+};
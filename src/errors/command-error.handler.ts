@@ -0,0 +1,43 @@
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+import { MessageFlags, type ChatInputCommandInteraction } from "discord.js";
+import { RateLimitedError, toAppError, type ErrorCode } from "./app.errors.js";
+
+/**
+ * Errors caused by the user or load rather than by a bug
+ */
+const EXPECTED_CODES: readonly ErrorCode[] = ["INVALID_INPUT", "DOWNLOAD_FAILED", "RATE_LIMITED"];
+
+/**
+ * Log the internal cause of a command failure and reply with the safe message
+ */
+export const handleCommandError = async (
+    interaction: ChatInputCommandInteraction,
+    error: unknown,
+    commandName: string
+): Promise<void> => {
+    const logger = container.resolve(TOKENS.Logger);
+    const appError = toAppError(error);
+    const log = EXPECTED_CODES.includes(appError.code) ? logger.warn.bind(logger) : logger.error.bind(logger);
+
+    log(
+        `Command /${commandName} failed for ${interaction.user.id} [${appError.code}]: ${appError.message}`,
+        ...(appError.details ? [appError.details] : []),
+        ...(appError.cause !== undefined ? [appError.cause] : [])
+    );
+
+    let content = `❌ ${appError.userMessage}`;
+    if (appError instanceof RateLimitedError && appError.retryAfterMs !== undefined) {
+        content += ` Try again <t:${Math.ceil((Date.now() + appError.retryAfterMs) / 1000)}:R>.`;
+    }
+
+    try {
+        if (interaction.deferred || interaction.replied) {
+            await interaction.editReply({ content });
+        } else {
+            await interaction.reply({ content, flags: MessageFlags.Ephemeral });
+        }
+    } catch (replyError) {
+        logger.error(`Failed to send error reply for /${commandName}:`, replyError);
+    }
+};
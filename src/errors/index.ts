@@ -0,0 +1,13 @@
+export {
+    AppError,
+    InvalidInputError,
+    DownloadError,
+    ModelUnavailableError,
+    InferenceError,
+    RateLimitedError,
+    InternalError,
+    toAppError,
+    describeError,
+} from "./app.errors.js";
+export { handleCommandError } from "./command-error.handler.js";
+export type { ErrorCode, AppErrorOptions } from "./app.errors.js";
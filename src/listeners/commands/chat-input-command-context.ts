@@ -0,0 +1,28 @@
+import { Events, Listener, type ChatInputCommand } from "@sapphire/framework";
+import { LoggerService } from "@/services/logger.service.js";
+import type { ChatInputCommandInteraction } from "discord.js";
+
+/**
+ * Tags every log line written while a slash command runs with a correlation id
+ * ChatInputCommandRun is emitted synchronously right before the command, so the context
+ * entered here follows the command body and its success or error events
+ */
+export class ChatInputCommandContextListener extends Listener<typeof Events.ChatInputCommandRun> {
+    public constructor(context: Listener.LoaderContext, options: Listener.Options) {
+        super(context, {
+            ...options,
+            event: Events.ChatInputCommandRun
+        });
+    }
+
+    public run(interaction: ChatInputCommandInteraction, command: ChatInputCommand) {
+        const subcommand = interaction.options.getSubcommand(false);
+
+        LoggerService.enterContext({
+            correlationId: LoggerService.createCorrelationId(),
+            command: subcommand ? `${command.name} ${subcommand}` : command.name,
+            interactionId: interaction.id,
+            userId: interaction.user.id,
+        });
+    }
+}
@@ -0,0 +1,33 @@
+import { Events, Listener, type ChatInputCommandDeniedPayload, type UserError } from "@sapphire/framework";
+import { MessageFlags } from "discord.js";
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+
+/**
+ * Tells the user why a precondition refused their slash command
+ */
+export class ChatInputCommandDeniedListener extends Listener<typeof Events.ChatInputCommandDenied> {
+    public constructor(context: Listener.LoaderContext, options: Listener.Options) {
+        super(context, {
+            ...options,
+            event: Events.ChatInputCommandDenied
+        });
+    }
+
+    public async run(error: UserError, { interaction, command }: ChatInputCommandDeniedPayload) {
+        if (Reflect.get(Object(error.context), "silent")) return;
+
+        container.resolve(TOKENS.Logger).debug(`Denied /${command.name} for ${interaction.user.id} [${error.identifier}]`);
+
+        const content = `❌ ${error.message}`;
+        try {
+            if (interaction.deferred || interaction.replied) {
+                await interaction.editReply({ content });
+            } else {
+                await interaction.reply({ content, flags: MessageFlags.Ephemeral });
+            }
+        } catch (replyError) {
+            container.resolve(TOKENS.Logger).error(`Failed to send denial for /${command.name}:`, replyError);
+        }
+    }
+}
@@ -0,0 +1,15 @@
+import { Events, Listener, type ChatInputCommandErrorPayload } from "@sapphire/framework";
+import { handleCommandError } from "@/errors/index.js";
+
+export class ChatInputCommandErrorListener extends Listener<typeof Events.ChatInputCommandError> {
+    public constructor(context: Listener.LoaderContext, options: Listener.Options) {
+        super(context, {
+            ...options,
+            event: Events.ChatInputCommandError
+        });
+    }
+
+    public async run(error: unknown, { interaction, command }: ChatInputCommandErrorPayload) {
+        await handleCommandError(interaction, error, command.name);
+    }
+}
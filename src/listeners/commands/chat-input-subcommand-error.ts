@@ -0,0 +1,16 @@
+import { Listener } from "@sapphire/framework";
+import { SubcommandPluginEvents, type ChatInputSubcommandErrorPayload } from "@sapphire/plugin-subcommands";
+import { handleCommandError } from "@/errors/index.js";
+
+export class ChatInputSubcommandErrorListener extends Listener<typeof SubcommandPluginEvents.ChatInputSubcommandError> {
+    public constructor(context: Listener.LoaderContext, options: Listener.Options) {
+        super(context, {
+            ...options,
+            event: SubcommandPluginEvents.ChatInputSubcommandError
+        });
+    }
+
+    public async run(error: unknown, { interaction, command, matchedSubcommandMapping }: ChatInputSubcommandErrorPayload) {
+        await handleCommandError(interaction, error, `${command.name} ${matchedSubcommandMapping.name}`);
+    }
+}
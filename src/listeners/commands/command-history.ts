@@ -0,0 +1,25 @@
+import { Events, Listener, type ChatInputCommand, type ChatInputCommandFinishPayload } from "@sapphire/framework";
+import { Subcommand } from "@sapphire/plugin-subcommands";
+import type { ChatInputCommandInteraction } from "discord.js";
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+
+/**
+ * Records finished plain slash commands in command_history when a database is configured
+ * Subcommands catch their own errors and always finish successfully, they are recorded from the subcommand events instead
+ */
+export class CommandHistoryListener extends Listener<typeof Events.ChatInputCommandFinish> {
+    public constructor(context: Listener.LoaderContext, options: Listener.Options) {
+        super(context, {
+            ...options,
+            event: Events.ChatInputCommandFinish,
+            enabled: container.has(TOKENS.CommandHistory)
+        });
+    }
+
+    public async run(interaction: ChatInputCommandInteraction, command: ChatInputCommand, { success, duration }: ChatInputCommandFinishPayload) {
+        if (command instanceof Subcommand) return;
+
+        await container.resolve(TOKENS.CommandHistory).record({ interaction, success, durationMs: duration });
+    }
+}
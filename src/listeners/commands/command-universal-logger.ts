@@ -6,7 +6,6 @@ import {
 
 import { container } from "@/container/container.js";
 import { TOKENS } from "@/container/tokens.js";
-import { LoggerService } from "@/services/logger.service.js";
 import {
     ChannelType,
     EmbedBuilder,
@@ -32,13 +31,13 @@ export class CommandLogger extends Listener {
             try {
                 this.webhookClient = new WebhookClient({ url: WEBHOOK_URL });
             } catch (error) {
-                console.error("Failed to initialize command log webhook:", error);
+                container.resolve(TOKENS.Logger).error("Failed to initialize command log webhook:", error);
             }
         }
     }
 
     public async run(payload: ChatInputCommandSuccessPayload) {
-        const logger = container.resolve<LoggerService>(TOKENS.Logger);
+        const logger = container.resolve(TOKENS.Logger);
         const { interaction, command, duration, result } = payload;
 
         try {
@@ -164,7 +163,7 @@ export class CommandLogger extends Listener {
                     },
                     {
                         name: "⚙️ Arguments",
-                        value: `\`\`\`${interaction.toString()}\`\`\``,
+                        value: this.truncate(interaction.toString(), MAX_FIELD_LENGTH),
                         inline: false
                     },
                     {
@@ -186,12 +185,17 @@ export class CommandLogger extends Listener {
             });
 
         } catch (error) {
-            const logger = container.resolve<LoggerService>(TOKENS.Logger);
+            const logger = container.resolve(TOKENS.Logger);
             logger.error("Failed to send command log to webhook:", error);
         }
     }
 
+    /**
+     * Redact and fence text for an embed field
+     * Redaction runs first so a secret cut in half by truncation cannot slip through
+     */
     private truncate(text: string, maxLength: number, prefix = "```", suffix = "```"): string {
+        text = container.resolve(TOKENS.Redactor).redact(text);
         const availableLength = maxLength - prefix.length - suffix.length;
 
         if (text.length <= availableLength) {
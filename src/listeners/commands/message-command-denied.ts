@@ -0,0 +1,27 @@
+import { Events, Listener, type MessageCommandDeniedPayload, type UserError } from "@sapphire/framework";
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+
+/**
+ * Tells the user why a precondition refused their prefixed command
+ */
+export class MessageCommandDeniedListener extends Listener<typeof Events.MessageCommandDenied> {
+    public constructor(context: Listener.LoaderContext, options: Listener.Options) {
+        super(context, {
+            ...options,
+            event: Events.MessageCommandDenied
+        });
+    }
+
+    public async run(error: UserError, { message, command }: MessageCommandDeniedPayload) {
+        if (Reflect.get(Object(error.context), "silent")) return;
+
+        container.resolve(TOKENS.Logger).debug(`Denied ${command.name} for ${message.author.id} [${error.identifier}]`);
+
+        try {
+            await message.reply({ content: `❌ ${error.message}`, allowedMentions: { repliedUser: false } });
+        } catch (replyError) {
+            container.resolve(TOKENS.Logger).error(`Failed to send denial for ${command.name}:`, replyError);
+        }
+    }
+}
@@ -0,0 +1,22 @@
+import { Listener } from "@sapphire/framework";
+import { SubcommandPluginEvents, type ChatInputSubcommandErrorPayload } from "@sapphire/plugin-subcommands";
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+
+/**
+ * Records a subcommand that threw in command_history
+ */
+export class SubcommandHistoryErrorListener extends Listener<typeof SubcommandPluginEvents.ChatInputSubcommandError> {
+    public constructor(context: Listener.LoaderContext, options: Listener.Options) {
+        super(context, {
+            ...options,
+            event: SubcommandPluginEvents.ChatInputSubcommandError,
+            enabled: container.has(TOKENS.CommandHistory)
+        });
+    }
+
+    public async run(_error: unknown, { interaction }: ChatInputSubcommandErrorPayload) {
+        const history = container.resolve(TOKENS.CommandHistory);
+        await history.record({ interaction, success: false, durationMs: history.elapsed(interaction) });
+    }
+}
@@ -0,0 +1,22 @@
+import { Listener } from "@sapphire/framework";
+import { SubcommandPluginEvents } from "@sapphire/plugin-subcommands";
+import type { ChatInputCommandInteraction } from "discord.js";
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+
+/**
+ * Starts timing a subcommand for command_history
+ */
+export class SubcommandHistoryRunListener extends Listener<typeof SubcommandPluginEvents.ChatInputSubcommandRun> {
+    public constructor(context: Listener.LoaderContext, options: Listener.Options) {
+        super(context, {
+            ...options,
+            event: SubcommandPluginEvents.ChatInputSubcommandRun,
+            enabled: container.has(TOKENS.CommandHistory)
+        });
+    }
+
+    public run(interaction: ChatInputCommandInteraction) {
+        container.resolve(TOKENS.CommandHistory).start(interaction);
+    }
+}
@@ -0,0 +1,23 @@
+import { Listener } from "@sapphire/framework";
+import { SubcommandPluginEvents } from "@sapphire/plugin-subcommands";
+import type { ChatInputCommandInteraction } from "discord.js";
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+
+/**
+ * Records a subcommand that completed in command_history
+ */
+export class SubcommandHistorySuccessListener extends Listener<typeof SubcommandPluginEvents.ChatInputSubcommandSuccess> {
+    public constructor(context: Listener.LoaderContext, options: Listener.Options) {
+        super(context, {
+            ...options,
+            event: SubcommandPluginEvents.ChatInputSubcommandSuccess,
+            enabled: container.has(TOKENS.CommandHistory)
+        });
+    }
+
+    public async run(interaction: ChatInputCommandInteraction) {
+        const history = container.resolve(TOKENS.CommandHistory);
+        await history.record({ interaction, success: true, durationMs: history.elapsed(interaction) });
+    }
+}
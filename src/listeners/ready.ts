@@ -1,7 +1,6 @@
 import { Listener } from "@sapphire/framework";
 import { TOKENS } from "@/container/tokens.js";
 import { container } from "@/container/container.js";
-import { LoggerService } from "@/services/logger.service.js";
 import { ActivityType, Client, Events } from "discord.js";
 
 export default class ReadyListener extends Listener {
@@ -14,7 +13,7 @@ export default class ReadyListener extends Listener {
     }
 
     run(client: Client) {
-        const logger = container.resolve<LoggerService>(TOKENS.Logger);
+        const logger = container.resolve(TOKENS.Logger);
         logger.debug(`Loaded ${this.container.stores.get("commands").size} command(s).`);
         logger.debug(`Loaded ${this.container.stores.get("listeners").size} listener(s).`);
 
@@ -46,8 +45,12 @@ export default class ReadyListener extends Listener {
         });
         logger.info("Activity status set successfully");
 
-        client.on("debug", logger.debug.bind(logger));
-        client.on("error", logger.error.bind(logger));
-        client.on("warn", logger.warn.bind(logger));
+        // discord.js debug output is very chatty, only subscribe when it would be written
+        const clientLogger = logger.child({ source: "discord.js" });
+        if (clientLogger.isLevelEnabled("debug")) {
+            client.on("debug", clientLogger.debug.bind(clientLogger));
+        }
+        client.on("error", clientLogger.error.bind(clientLogger));
+        client.on("warn", clientLogger.warn.bind(clientLogger));
     }
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+-- One row per finished slash command
+CREATE TABLE command_history (
+    id BIGSERIAL PRIMARY KEY,
+    interaction_id TEXT NOT NULL,
+    command TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    guild_id TEXT,
+    success BOOLEAN NOT NULL,
+    duration_ms DOUBLE PRECISION,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX command_history_user_created_idx ON command_history (user_id, created_at DESC);
@@ -0,0 +1,20 @@
+-- Discord users and their subscription tier
+CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    username TEXT,
+    tier TEXT NOT NULL DEFAULT 'free' CHECK (tier IN ('free', 'paid', 'owner')),
+    -- A paid tier falls back to free after this, NULL never expires
+    tier_expires_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Command uses per user, one row per UTC day and per UTC month
+CREATE TABLE usage_counters (
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    command TEXT NOT NULL,
+    period TEXT NOT NULL CHECK (period IN ('day', 'month')),
+    period_start DATE NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (user_id, command, period, period_start)
+);
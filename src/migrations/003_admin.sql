@@ -0,0 +1,29 @@
+-- Per-user limits replacing the tier defaults, NULL keeps the tier default
+CREATE TABLE quota_overrides (
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    command TEXT NOT NULL,
+    daily_limit INTEGER CHECK (daily_limit >= 0),
+    monthly_limit INTEGER CHECK (monthly_limit >= 0),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (user_id, command)
+);
+
+-- Guilds explicitly allowed (allow list) or denied (block list)
+CREATE TABLE guild_access (
+    guild_id TEXT PRIMARY KEY,
+    allowed BOOLEAN NOT NULL,
+    updated_by TEXT NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Every change made through /admin
+CREATE TABLE admin_audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    actor_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    target_id TEXT NOT NULL,
+    details JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX admin_audit_log_target_idx ON admin_audit_log (target_id, created_at DESC);
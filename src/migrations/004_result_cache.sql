@@ -0,0 +1,8 @@
+-- Prediction results shared across restarts, keyed like the in-memory result cache
+CREATE TABLE result_cache (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX result_cache_expires_idx ON result_cache (expires_at);
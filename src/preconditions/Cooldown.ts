@@ -0,0 +1,96 @@
+import {
+    AllFlowsPrecondition,
+    BucketScope,
+    Identifiers,
+    type ChatInputCommand,
+    type ContextMenuCommand,
+    type MessageCommand,
+    type Preconditions,
+} from "@sapphire/framework";
+import type { ChatInputCommandInteraction, ContextMenuCommandInteraction, Message } from "discord.js";
+import { isOwnerId } from "@/services/user/index.js";
+
+/**
+ * Context Sapphire builds from a command's cooldown options
+ */
+type CooldownPreconditionContext = Preconditions["Cooldown"];
+
+interface CooldownBucket {
+    expiresAt: number;
+    remaining: number;
+}
+
+/**
+ * Expired buckets are swept once the map grows past this
+ */
+const SWEEP_THRESHOLD = 1_000;
+
+/**
+ * Replaces Sapphire's built-in Cooldown, so `cooldownDelay`, `cooldownLimit`, `cooldownScope` and
+ * `cooldownFilteredUsers` in command options keep working, while subcommands get their own buckets,
+ * owners are never limited and denials read friendlier
+ */
+export class CooldownPrecondition extends AllFlowsPrecondition {
+    private readonly buckets = new Map<string, CooldownBucket>();
+
+    public override messageRun(message: Message, command: MessageCommand, context: CooldownPreconditionContext) {
+        const bucketId = this.getBucketId(context.scope, message.author.id, message.guildId, message.channelId);
+        return this.check(message.author.id, `${command.name}:${bucketId}`, context);
+    }
+
+    public override chatInputRun(interaction: ChatInputCommandInteraction, command: ChatInputCommand, context: CooldownPreconditionContext) {
+        const subcommand = interaction.options.getSubcommand(false);
+        const bucketId = this.getBucketId(context.scope, interaction.user.id, interaction.guildId, interaction.channelId);
+        return this.check(interaction.user.id, `${command.name}${subcommand ? ` ${subcommand}` : ""}:${bucketId}`, context);
+    }
+
+    public override contextMenuRun(interaction: ContextMenuCommandInteraction, command: ContextMenuCommand, context: CooldownPreconditionContext) {
+        const bucketId = this.getBucketId(context.scope, interaction.user.id, interaction.guildId, interaction.channelId);
+        return this.check(interaction.user.id, `${command.name}:${bucketId}`, context);
+    }
+
+    private check(userId: string, key: string, context: CooldownPreconditionContext) {
+        if (context.external || !context.delay) return this.ok();
+        if (context.filteredUsers?.includes(userId) || isOwnerId(userId)) return this.ok();
+
+        const now = Date.now();
+        let bucket = this.buckets.get(key);
+        if (!bucket || bucket.expiresAt <= now) {
+            this.sweep(now);
+            bucket = { expiresAt: now + context.delay, remaining: context.limit ?? 1 };
+            this.buckets.set(key, bucket);
+        }
+
+        if (bucket.remaining <= 0) {
+            return this.error({
+                identifier: Identifiers.PreconditionCooldown,
+                message: `Slow down! You can use this command again <t:${Math.ceil(bucket.expiresAt / 1000)}:R>.`,
+                context: { remaining: bucket.expiresAt - now },
+            });
+        }
+
+        bucket.remaining--;
+        return this.ok();
+    }
+
+    private getBucketId(scope: BucketScope | undefined, userId: string, guildId: string | null, channelId: string | null): string {
+        switch (scope) {
+            case BucketScope.Global:
+                return "global";
+            case BucketScope.Channel:
+                return channelId ?? userId;
+            case BucketScope.Guild:
+                return guildId ?? channelId ?? userId;
+            default:
+                return userId;
+        }
+    }
+
+    private sweep(now: number): void {
+        if (this.buckets.size < SWEEP_THRESHOLD) return;
+
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.expiresAt <= now) this.buckets.delete(key);
+        }
+    }
+}
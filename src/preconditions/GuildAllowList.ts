@@ -0,0 +1,37 @@
+import { AllFlowsPrecondition } from "@sapphire/framework";
+import type { ChatInputCommandInteraction, ContextMenuCommandInteraction, Message } from "discord.js";
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+import { isOwnerId } from "@/services/user/index.js";
+
+/**
+ * Restricts a command to allowed guilds (ALLOWED_GUILD_IDS and `/admin guild allow`), or everywhere when none are
+ * Denied guilds and, while an allow list is active, direct messages are refused; owners are never refused
+ */
+export class GuildAllowListPrecondition extends AllFlowsPrecondition {
+    public override messageRun(message: Message) {
+        return this.check(message.author.id, message.guildId);
+    }
+
+    public override chatInputRun(interaction: ChatInputCommandInteraction) {
+        return this.check(interaction.user.id, interaction.guildId);
+    }
+
+    public override contextMenuRun(interaction: ContextMenuCommandInteraction) {
+        return this.check(interaction.user.id, interaction.guildId);
+    }
+
+    private check(userId: string, guildId: string | null) {
+        if (isOwnerId(userId) || container.resolve(TOKENS.GuildAccess).isAllowed(guildId)) {
+            return this.ok();
+        }
+
+        return this.error({ message: "This command is not available in this server." });
+    }
+}
+
+declare module "@sapphire/framework" {
+    interface Preconditions {
+        GuildAllowList: never;
+    }
+}
@@ -0,0 +1,32 @@
+import { AllFlowsPrecondition } from "@sapphire/framework";
+import type { ChatInputCommandInteraction, ContextMenuCommandInteraction, Message } from "discord.js";
+import { isOwnerId } from "@/services/user/index.js";
+
+/**
+ * Restricts a command to the users listed in OWNER_IDS
+ */
+export class OwnerOnlyPrecondition extends AllFlowsPrecondition {
+    public override messageRun(message: Message) {
+        return this.check(message.author.id);
+    }
+
+    public override chatInputRun(interaction: ChatInputCommandInteraction) {
+        return this.check(interaction.user.id);
+    }
+
+    public override contextMenuRun(interaction: ContextMenuCommandInteraction) {
+        return this.check(interaction.user.id);
+    }
+
+    private check(userId: string) {
+        return isOwnerId(userId)
+            ? this.ok()
+            : this.error({ message: "This command is only available to the bot owners." });
+    }
+}
+
+declare module "@sapphire/framework" {
+    interface Preconditions {
+        OwnerOnly: never;
+    }
+}
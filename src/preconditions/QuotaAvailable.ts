@@ -0,0 +1,45 @@
+import { AllFlowsPrecondition, type Command } from "@sapphire/framework";
+import type { ChatInputCommandInteraction, ContextMenuCommandInteraction, Message, User } from "discord.js";
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+import { QuotaExceededError } from "@/services/user/index.js";
+
+/**
+ * Refuses users that used up the command's daily or monthly quota
+ * The quota is keyed by the command name, this is only an early read, commands reserve the use themselves
+ * with `UserService.reserveUsage()` so concurrent runs cannot overshoot it
+ * Always passes when no database is configured
+ */
+export class QuotaAvailablePrecondition extends AllFlowsPrecondition {
+    public override messageRun(message: Message, command: Command) {
+        return this.check(message.author, command.name);
+    }
+
+    public override chatInputRun(interaction: ChatInputCommandInteraction, command: Command) {
+        return this.check(interaction.user, command.name);
+    }
+
+    public override contextMenuRun(interaction: ContextMenuCommandInteraction, command: Command) {
+        return this.check(interaction.user, command.name);
+    }
+
+    private async check(user: User, command: string) {
+        if (!container.has(TOKENS.UserService)) return this.ok();
+
+        const status = await container.resolve(TOKENS.UserService).checkQuota(user, command);
+        if (status.allowed) return this.ok();
+
+        const error = new QuotaExceededError(command, status);
+        const { resetsAt } = status.exceeded === "month" ? status.monthly : status.daily;
+        return this.error({
+            message: `${error.userMessage} It resets <t:${Math.ceil(resetsAt.getTime() / 1000)}:R>.`,
+            context: { status },
+        });
+    }
+}
+
+declare module "@sapphire/framework" {
+    interface Preconditions {
+        QuotaAvailable: never;
+    }
+}
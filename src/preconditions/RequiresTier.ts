@@ -0,0 +1,58 @@
+import { AllFlowsPrecondition } from "@sapphire/framework";
+import type { ChatInputCommandInteraction, ContextMenuCommandInteraction, Message, User } from "discord.js";
+import { container } from "@/container/container.js";
+import { TOKENS } from "@/container/tokens.js";
+import { isOwnerId, type UserTier } from "@/services/user/index.js";
+
+const TIER_RANK: Record<UserTier, number> = {
+    free: 0,
+    paid: 1,
+    owner: 2,
+};
+
+interface RequiresTierContext extends AllFlowsPrecondition.Context {
+    tier: UserTier;
+}
+
+/**
+ * Refuses users below a minimum tier, declared as `{ name: "RequiresTier", context: { tier: "paid" } }`
+ * Without a database everyone except owners is on the free tier
+ */
+export class RequiresTierPrecondition extends AllFlowsPrecondition {
+    public override messageRun(message: Message, _command: unknown, context: RequiresTierContext) {
+        return this.check(message.author, context.tier);
+    }
+
+    public override chatInputRun(interaction: ChatInputCommandInteraction, _command: unknown, context: RequiresTierContext) {
+        return this.check(interaction.user, context.tier);
+    }
+
+    public override contextMenuRun(interaction: ContextMenuCommandInteraction, _command: unknown, context: RequiresTierContext) {
+        return this.check(interaction.user, context.tier);
+    }
+
+    private async check(user: User, required: UserTier) {
+        const tier = await this.getTier(user);
+        if (TIER_RANK[tier] >= TIER_RANK[required]) return this.ok();
+
+        return this.error({
+            message: `This command requires the ${required} tier, you are on the ${tier} tier.`,
+            context: { tier, required },
+        });
+    }
+
+    private async getTier(user: User): Promise<UserTier> {
+        if (isOwnerId(user.id)) return "owner";
+        if (!container.has(TOKENS.UserService)) return "free";
+
+        return (await container.resolve(TOKENS.UserService).ensureUser(user)).effectiveTier;
+    }
+}
+
+declare module "@sapphire/framework" {
+    interface Preconditions {
+        RequiresTier: {
+            tier: UserTier;
+        };
+    }
+}
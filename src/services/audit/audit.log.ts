@@ -0,0 +1,83 @@
+import type { LoggerService } from "@/services/logger.service.js";
+import type { DatabaseService, QueryExecutor } from "@/services/database/index.js";
+
+export type AuditAction =
+    | "user.grant"
+    | "user.revoke"
+    | "quota.set"
+    | "quota.reset"
+    | "guild.allow"
+    | "guild.deny";
+
+export interface AuditEntry {
+    /**
+     * Discord user that made the change
+     */
+    actorId: string;
+    action: AuditAction;
+    /**
+     * User or guild the change applies to
+     */
+    targetId: string;
+    details?: Record<string, unknown>;
+}
+
+export interface AuditRecord extends Required<AuditEntry> {
+    id: string;
+    createdAt: Date;
+}
+
+interface AuditRow {
+    id: string;
+    actor_id: string;
+    action: AuditAction;
+    target_id: string;
+    details: Record<string, unknown>;
+    created_at: Date;
+}
+
+/**
+ * Append-only record of administrative changes
+ */
+export class AuditLog {
+    private readonly db: DatabaseService;
+    private readonly logger: LoggerService;
+
+    constructor(db: DatabaseService, logger: LoggerService) {
+        this.db = db;
+        this.logger = logger;
+    }
+
+    /**
+     * Write an entry, pass the transaction of the change so both commit together
+     */
+    async record(entry: AuditEntry, executor: QueryExecutor = this.db): Promise<void> {
+        await executor.query(
+            "INSERT INTO admin_audit_log (actor_id, action, target_id, details) VALUES ($1, $2, $3, $4::jsonb)",
+            [entry.actorId, entry.action, entry.targetId, JSON.stringify(entry.details ?? {})]
+        );
+
+        this.logger.debug(`Audit entry: ${entry.actorId} ${entry.action} ${entry.targetId}`);
+    }
+
+    /**
+     * Latest entries, optionally only those about one target
+     */
+    async recent(limit: number, targetId?: string): Promise<AuditRecord[]> {
+        const rows = targetId
+            ? await this.db.query<AuditRow>(
+                "SELECT * FROM admin_audit_log WHERE target_id = $1 ORDER BY created_at DESC LIMIT $2",
+                [targetId, limit]
+            )
+            : await this.db.query<AuditRow>("SELECT * FROM admin_audit_log ORDER BY created_at DESC LIMIT $1", [limit]);
+
+        return rows.map(row => ({
+            id: row.id,
+            actorId: row.actor_id,
+            action: row.action,
+            targetId: row.target_id,
+            details: row.details,
+            createdAt: row.created_at,
+        }));
+    }
+}
@@ -0,0 +1,2 @@
+export { AuditLog } from "./audit.log.js";
+export type { AuditAction, AuditEntry, AuditRecord } from "./audit.log.js";
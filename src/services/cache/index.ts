@@ -0,0 +1,3 @@
+export { ResultCache } from "./result.cache.js";
+export { PostgresResultCacheBackend } from "./postgres.cache-backend.js";
+export type { ResultCacheConfig, ResultCacheBackend, ResultCacheStats, CacheCounters } from "./result.cache.js";
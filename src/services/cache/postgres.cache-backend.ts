@@ -0,0 +1,54 @@
+import type { PredictionResult } from "@/services/interfaces/model.interface.js";
+import type { LoggerService } from "@/services/logger.service.js";
+import type { QueryExecutor } from "@/services/database/index.js";
+import type { ResultCacheBackend } from "./result.cache.js";
+
+/**
+ * Result cache backend storing predictions in the result_cache table
+ * Only the decoded results, timing and model version are kept, raw outputs stay in memory
+ */
+export class PostgresResultCacheBackend implements ResultCacheBackend {
+    private readonly db: QueryExecutor;
+    private readonly logger: LoggerService;
+
+    constructor(db: QueryExecutor, logger: LoggerService) {
+        this.db = db;
+        this.logger = logger;
+    }
+
+    async get(key: string): Promise<PredictionResult<any> | null> {
+        const row = await this.db.queryOne<{ value: PredictionResult<any> }>(
+            "SELECT value FROM result_cache WHERE key = $1 AND expires_at > now()",
+            [key]
+        );
+        if (!row) return null;
+
+        const { model, ...value } = row.value;
+        return {
+            ...value,
+            ...(model && { model: { ...model, loadedAt: new Date(model.loadedAt) } }),
+        };
+    }
+
+    async set(key: string, value: PredictionResult<any>, ttlMs: number): Promise<void> {
+        const stored = {
+            results: value.results,
+            ...(value.inferenceTime !== undefined && { inferenceTime: value.inferenceTime }),
+            ...(value.model && { model: value.model }),
+        };
+
+        await this.db.query(
+            `INSERT INTO result_cache (key, value, expires_at) VALUES ($1, $2::jsonb, now() + make_interval(secs => $3))
+             ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, expires_at = EXCLUDED.expires_at`,
+            [key, JSON.stringify(stored), ttlMs / 1000]
+        );
+    }
+
+    async prune(): Promise<number> {
+        const rows = await this.db.query("DELETE FROM result_cache WHERE expires_at <= now() RETURNING key");
+        if (rows.length > 0) {
+            this.logger.debug(`Pruned ${rows.length} expired result cache row(s)`);
+        }
+        return rows.length;
+    }
+}
@@ -0,0 +1,187 @@
+import { createHash } from "node:crypto";
+import type { ModelVersion, PredictionResult } from "@/services/interfaces/model.interface.js";
+import type { LoggerService } from "@/services/logger.service.js";
+
+/**
+ * Result cache limits
+ */
+export interface ResultCacheConfig {
+    /**
+     * Maximum entries kept in memory, least recently used are evicted first
+     */
+    maxEntries: number;
+    /**
+     * Time after which an entry is no longer served
+     */
+    ttlMs: number;
+}
+
+/**
+ * Secondary store consulted on in-memory misses, e.g. a database table
+ */
+export interface ResultCacheBackend {
+    get(key: string): Promise<PredictionResult<any> | null>;
+    set(key: string, value: PredictionResult<any>, ttlMs: number): Promise<void>;
+    /**
+     * Delete expired entries, returning how many were removed
+     */
+    prune?(): Promise<number>;
+}
+
+/**
+ * Hit/miss counters of a single model
+ */
+export interface CacheCounters {
+    hits: number;
+    misses: number;
+}
+
+/**
+ * Snapshot of cache usage
+ */
+export interface ResultCacheStats extends CacheCounters {
+    size: number;
+    evictions: number;
+    models: Record<string, CacheCounters>;
+}
+
+interface CacheEntry {
+    value: PredictionResult<any>;
+    expiresAt: number;
+}
+
+/**
+ * LRU cache of prediction results keyed by image content and model version
+ */
+export class ResultCache {
+    private readonly entries = new Map<string, CacheEntry>();
+    private readonly counters = new Map<string, CacheCounters>();
+    private evictions = 0;
+    private readonly config: ResultCacheConfig;
+    private readonly logger: LoggerService;
+    private readonly backend: ResultCacheBackend | null;
+
+    constructor(config: ResultCacheConfig, logger: LoggerService, backend?: ResultCacheBackend) {
+        this.config = config;
+        this.logger = logger;
+        this.backend = backend ?? null;
+    }
+
+    /**
+     * Cache key for an input run through a specific model file
+     */
+    public static key(input: Buffer, model: ModelVersion): string {
+        const digest = createHash("sha256").update(input).digest("hex");
+        return `${model.id}@${model.hash}:${digest}`;
+    }
+
+    /**
+     * Look up a result, refreshing its recency
+     */
+    public async get<T>(modelId: string, key: string): Promise<PredictionResult<T> | null> {
+        const counters = this.countersFor(modelId);
+        const entry = this.entries.get(key);
+
+        if (entry && entry.expiresAt > Date.now()) {
+            // Re-insert to mark as most recently used
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+            counters.hits++;
+            return structuredClone(entry.value);
+        }
+
+        if (entry) {
+            this.entries.delete(key);
+        }
+
+        const stored = await this.readBackend(key);
+        if (stored) {
+            this.store(key, stored);
+            counters.hits++;
+            return stored;
+        }
+
+        counters.misses++;
+        return null;
+    }
+
+    /**
+     * Store a result in memory and in the backend
+     */
+    public async set<T>(key: string, value: PredictionResult<T>): Promise<void> {
+        this.store(key, value);
+
+        if (this.backend) {
+            await this.backend.set(key, value, this.config.ttlMs).catch(error => {
+                this.logger.warn("Failed to write result cache backend:", error);
+            });
+        }
+    }
+
+    public clear(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * Drop expired entries from memory and the backend, expired entries are never served either way
+     */
+    public async prune(): Promise<void> {
+        const now = Date.now();
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt <= now) {
+                this.entries.delete(key);
+            }
+        }
+
+        await this.backend?.prune?.().catch(error => {
+            this.logger.warn("Failed to prune result cache backend:", error);
+        });
+    }
+
+    public getStats(): ResultCacheStats {
+        const models = Object.fromEntries(
+            Array.from(this.counters.entries()).map(([id, counters]) => [id, { ...counters }])
+        );
+        const totals = Object.values(models).reduce(
+            (acc, counters) => ({ hits: acc.hits + counters.hits, misses: acc.misses + counters.misses }),
+            { hits: 0, misses: 0 }
+        );
+
+        return { ...totals, size: this.entries.size, evictions: this.evictions, models };
+    }
+
+    /**
+     * Entries hold their own copy, results handed out or in can be mutated by callers
+     */
+    private store(key: string, value: PredictionResult<any>): void {
+        this.entries.delete(key);
+        this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + this.config.ttlMs });
+
+        // Map iteration order is insertion order, so the first key is the least recently used
+        while (this.entries.size > this.config.maxEntries) {
+            const oldest = this.entries.keys().next().value!;
+            this.entries.delete(oldest);
+            this.evictions++;
+        }
+    }
+
+    private async readBackend(key: string): Promise<PredictionResult<any> | null> {
+        if (!this.backend) return null;
+
+        try {
+            return await this.backend.get(key);
+        } catch (error) {
+            this.logger.warn("Failed to read result cache backend:", error);
+            return null;
+        }
+    }
+
+    private countersFor(modelId: string): CacheCounters {
+        let counters = this.counters.get(modelId);
+        if (!counters) {
+            counters = { hits: 0, misses: 0 };
+            this.counters.set(modelId, counters);
+        }
+        return counters;
+    }
+}
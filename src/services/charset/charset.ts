@@ -0,0 +1,114 @@
+/**
+ * Case applied to decoded symbols
+ */
+export type CharsetCase = "preserve" | "lower" | "upper";
+
+/**
+ * Declarative charset, as written in configs and manifests
+ */
+export interface CharsetConfig {
+    /**
+     * Ordered symbols, one per class excluding the blank
+     * A string is split into characters
+     */
+    symbols: string | string[];
+    /**
+     * Class index of a blank class that decodes to nothing, inserted among the symbols
+     */
+    blankIndex?: number;
+    /**
+     * Returned for class indices outside the charset
+     */
+    unknown?: string;
+    case?: CharsetCase;
+}
+
+/**
+ * Charsets addressable by name
+ */
+export const CHARSETS = {
+    lowercase: { symbols: "abcdefghijklmnopqrstuvwxyz" },
+    alphanumeric: { symbols: " 0123456789abcdefghijklmnopqrstuvwxyz" },
+} satisfies Record<string, CharsetConfig>;
+
+export type CharsetPreset = keyof typeof CHARSETS;
+
+/**
+ * Anything that can be resolved to a charset
+ */
+export type CharsetSpec = CharsetPreset | CharsetConfig | Charset;
+
+/**
+ * Ordered vocabulary mapping model class indices to symbols
+ */
+export class Charset {
+    public readonly symbols: readonly string[];
+    public readonly blankIndex: number | null;
+    public readonly unknown: string;
+    private readonly casing: CharsetCase;
+
+    constructor(config: CharsetConfig) {
+        this.symbols = typeof config.symbols === "string" ? Array.from(config.symbols) : [...config.symbols];
+        this.blankIndex = config.blankIndex ?? null;
+        this.unknown = config.unknown ?? "?";
+        this.casing = config.case ?? "preserve";
+
+        if (this.symbols.length === 0) {
+            throw new Error("Charset must contain at least one symbol");
+        }
+
+        if (this.blankIndex !== null && !(Number.isInteger(this.blankIndex) && this.blankIndex >= 0 && this.blankIndex <= this.symbols.length)) {
+            throw new Error(`Charset blank index ${this.blankIndex} must be between 0 and ${this.symbols.length}`);
+        }
+
+        const duplicate = this.symbols.find((symbol, index) => this.symbols.indexOf(symbol) !== index);
+        if (duplicate !== undefined) {
+            throw new Error(`Charset contains duplicate symbol "${duplicate}"`);
+        }
+    }
+
+    /**
+     * Number of model classes, including the blank
+     */
+    public get size(): number {
+        return this.symbols.length + (this.blankIndex === null ? 0 : 1);
+    }
+
+    public isBlank(index: number): boolean {
+        return index === this.blankIndex;
+    }
+
+    /**
+     * Symbol for a class index, empty for the blank
+     */
+    public decode(index: number): string {
+        if (this.isBlank(index)) return "";
+
+        const symbolIndex = this.blankIndex !== null && index > this.blankIndex ? index - 1 : index;
+        const symbol = this.symbols[symbolIndex];
+
+        if (symbol === undefined) return this.unknown;
+
+        switch (this.casing) {
+            case "lower": return symbol.toLowerCase();
+            case "upper": return symbol.toUpperCase();
+            default: return symbol;
+        }
+    }
+
+    /**
+     * Resolve a preset name, config or charset instance
+     */
+    public static from(spec: CharsetSpec): Charset {
+        if (spec instanceof Charset) return spec;
+
+        if (typeof spec === "string") {
+            if (!Object.hasOwn(CHARSETS, spec)) {
+                throw new Error(`Unknown charset "${spec}" (expected one of ${Object.keys(CHARSETS).join(", ")})`);
+            }
+            return new Charset(CHARSETS[spec]);
+        }
+
+        return new Charset(spec);
+    }
+}
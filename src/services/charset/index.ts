@@ -0,0 +1,2 @@
+export { Charset, CHARSETS } from "./charset.js";
+export type { CharsetCase, CharsetConfig, CharsetPreset, CharsetSpec } from "./charset.js";
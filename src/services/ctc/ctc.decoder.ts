@@ -0,0 +1,242 @@
+import { BaseDecoder, type DecodedResult, type DecoderConfig, type TensorSignature } from "@/services/interfaces/decoder.interface.js";
+import { Charset, type CharsetSpec } from "@/services/charset/charset.js";
+
+/**
+ * How the model scores are expressed
+ */
+export type CTCScoreType = "probabilities" | "logits" | "logProbabilities";
+
+/**
+ * CTC decoder configuration
+ */
+export interface CTCDecoderConfig extends DecoderConfig {
+    /**
+     * Vocabulary including its blank class, takes precedence over `alphabet`
+     */
+    charset?: CharsetSpec;
+    /**
+     * Output symbols, in class order, excluding the blank
+     */
+    alphabet?: string[];
+    /**
+     * Class index of the CTC blank when using `alphabet`
+     */
+    blankIndex?: number;
+    strategy?: "greedy" | "beam";
+    beamWidth?: number;
+    scores?: CTCScoreType;
+    minConfidence?: number;
+}
+
+/**
+ * Emitted symbol along a decoding path
+ */
+interface EmittedSymbol {
+    classIndex: number;
+    timestep: number;
+    confidence: number;
+}
+
+interface Beam {
+    prefix: EmittedSymbol[];
+    /**
+     * Log probability of the prefix ending in a blank / in a symbol
+     */
+    blank: number;
+    symbol: number;
+}
+
+const logSumExp = (...values: number[]): number => {
+    const max = Math.max(...values);
+    if (max === -Infinity) return -Infinity;
+    return max + Math.log(values.reduce((acc, value) => acc + Math.exp(value - max), 0));
+};
+
+/**
+ * CTC decoder for `[T, C]` sequence outputs (batch-first, `C = alphabet + blank`)
+ * Supports greedy (best path) and prefix beam search decoding
+ */
+export class CTCDecoder extends BaseDecoder<Float32Array, string, CTCDecoderConfig> {
+    private readonly charset: Charset;
+
+    constructor(config: CTCDecoderConfig) {
+        super({
+            strategy: "greedy",
+            beamWidth: 10,
+            scores: "probabilities",
+            minConfidence: 0,
+            ...config,
+        } as CTCDecoderConfig);
+
+        this.charset = CTCDecoder.resolveCharset(config);
+    }
+
+    public decode(array: Float32Array, config?: Partial<CTCDecoderConfig>): DecodedResult<string>[] {
+        const finalConfig = { ...this.defaultConfig, ...config };
+        const charset = config?.charset || config?.alphabet ? CTCDecoder.resolveCharset(finalConfig) : this.charset;
+        const { strategy = "greedy", minConfidence = 0 } = finalConfig;
+        const blankIndex = charset.blankIndex!;
+        const numClasses = charset.size;
+
+        if (array.length === 0) {
+            throw new Error("Input array cannot be empty");
+        }
+
+        if (array.length % numClasses !== 0) {
+            throw new Error(
+                `Array length (${array.length}) must be divisible by number of classes (${numClasses})`
+            );
+        }
+
+        const logProbs = this.toLogProbabilities(array, numClasses, finalConfig.scores ?? "probabilities");
+        const path = strategy === "beam"
+            ? this.beamSearch(logProbs, numClasses, blankIndex, finalConfig.beamWidth ?? 10)
+            : this.greedy(logProbs, numClasses, blankIndex);
+
+        return path
+            .filter(symbol => symbol.confidence >= minConfidence)
+            .map((symbol, position) => ({
+                value: charset.decode(symbol.classIndex),
+                confidence: symbol.confidence,
+                position,
+                metadata: { timestep: symbol.timestep },
+            }));
+    }
+
+    public validateOutput(output: TensorSignature): string[] {
+        const problems = super.validateOutput(output);
+        const numClasses = this.charset.size;
+        const classes = output.shape[output.shape.length - 1];
+
+        if (typeof classes === "number" && classes !== numClasses) {
+            problems.push(
+                `output "${output.name}" has ${classes} classes per timestep, charset has ${numClasses}`
+            );
+        }
+
+        return problems;
+    }
+
+    /**
+     * Best path: argmax per timestep, collapse repeats, drop blanks
+     */
+    private greedy(logProbs: Float32Array[], numClasses: number, blankIndex: number): EmittedSymbol[] {
+        const path: EmittedSymbol[] = [];
+        let previous = -1;
+
+        logProbs.forEach((scores, timestep) => {
+            let best = 0;
+            for (let c = 1; c < numClasses; c++) {
+                if (scores[c]! > scores[best]!) best = c;
+            }
+
+            const confidence = Math.exp(scores[best]!);
+
+            if (best !== blankIndex && best !== previous) {
+                path.push({ classIndex: best, timestep, confidence });
+            } else if (best !== blankIndex && best === previous) {
+                // Same symbol repeated, keep the most confident frame
+                const last = path[path.length - 1]!;
+                if (confidence > last.confidence) {
+                    last.confidence = confidence;
+                    last.timestep = timestep;
+                }
+            }
+
+            previous = best;
+        });
+
+        return path;
+    }
+
+    /**
+     * CTC prefix beam search in log space
+     */
+    private beamSearch(logProbs: Float32Array[], numClasses: number, blankIndex: number, beamWidth: number): EmittedSymbol[] {
+        const key = (prefix: EmittedSymbol[]) => prefix.map(symbol => symbol.classIndex).join(",");
+        let beams: Beam[] = [{ prefix: [], blank: 0, symbol: -Infinity }];
+
+        logProbs.forEach((scores, timestep) => {
+            const next = new Map<string, Beam>();
+
+            const entry = (prefix: EmittedSymbol[]): Beam => {
+                const id = key(prefix);
+                let beam = next.get(id);
+                if (!beam) {
+                    beam = { prefix, blank: -Infinity, symbol: -Infinity };
+                    next.set(id, beam);
+                }
+                return beam;
+            };
+
+            for (const beam of beams) {
+                const last = beam.prefix[beam.prefix.length - 1];
+
+                for (let c = 0; c < numClasses; c++) {
+                    const score = scores[c]!;
+
+                    if (c === blankIndex) {
+                        const same = entry(beam.prefix);
+                        same.blank = logSumExp(same.blank, beam.blank + score, beam.symbol + score);
+                        continue;
+                    }
+
+                    const extended = entry([...beam.prefix, { classIndex: c, timestep, confidence: Math.exp(score) }]);
+
+                    if (last?.classIndex === c) {
+                        // A repeat only extends the prefix after a blank, otherwise it collapses
+                        extended.symbol = logSumExp(extended.symbol, beam.blank + score);
+                        const same = entry(beam.prefix);
+                        same.symbol = logSumExp(same.symbol, beam.symbol + score);
+                    } else {
+                        extended.symbol = logSumExp(extended.symbol, beam.blank + score, beam.symbol + score);
+                    }
+                }
+            }
+
+            beams = Array.from(next.values())
+                .sort((a, b) => logSumExp(b.blank, b.symbol) - logSumExp(a.blank, a.symbol))
+                .slice(0, beamWidth);
+        });
+
+        return beams[0]?.prefix ?? [];
+    }
+
+    /**
+     * Convert raw scores into per-timestep log probabilities
+     */
+    private toLogProbabilities(array: Float32Array, numClasses: number, scores: CTCScoreType): Float32Array[] {
+        const timesteps = array.length / numClasses;
+        const result: Float32Array[] = [];
+
+        for (let t = 0; t < timesteps; t++) {
+            const row = array.subarray(t * numClasses, (t + 1) * numClasses);
+
+            if (scores === "logProbabilities") {
+                result.push(row);
+            } else if (scores === "logits") {
+                const normalizer = logSumExp(...row);
+                result.push(row.map(value => value - normalizer));
+            } else {
+                result.push(row.map(value => Math.log(Math.max(value, Number.MIN_VALUE))));
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Resolve the vocabulary, which must contain a blank class
+     */
+    private static resolveCharset(config: Partial<CTCDecoderConfig>): Charset {
+        const charset = config.charset
+            ? Charset.from(config.charset)
+            : new Charset({ symbols: config.alphabet ?? [], blankIndex: config.blankIndex ?? 0 });
+
+        if (charset.blankIndex === null) {
+            throw new Error("CTC charset must declare a blankIndex");
+        }
+
+        return charset;
+    }
+}
@@ -0,0 +1,85 @@
+import { BaseONNXModelService, type ModelComponents, type ModelConfig, type PredictOptions, type PredictionResult } from "@/services/interfaces/model.interface.js";
+import type { PreprocessConfig } from "@/services/interfaces/preprocessor.interface.js";
+import { CTCDecoder, type CTCDecoderConfig } from "./ctc.decoder.js";
+import { AppError, InferenceError, ModelUnavailableError, describeError } from "@/errors/app.errors.js";
+
+/**
+ * CTC text recognition model configuration
+ */
+export interface CTCModelConfig extends ModelConfig {
+    preprocessor: PreprocessConfig;
+    decoder: CTCDecoderConfig;
+}
+
+/**
+ * Text recognition service for CRNN-style models with `[T, C]` output
+ * The preprocessor is model specific and must be supplied by the caller
+ */
+export class CTCModelService extends BaseONNXModelService<Buffer, string, CTCModelConfig> {
+    constructor(config: CTCModelConfig, components: ModelComponents<string>) {
+        if (!components.preprocessor) {
+            throw new Error(`CTC model "${config.id}" requires a preprocessor`);
+        }
+
+        const decoder = components.decoder ?? new CTCDecoder(config.decoder);
+        const logger = components.logger.child({ model: config.id });
+
+        super(config, components.preprocessor, decoder, logger, components.sessionFactory, components.cache);
+    }
+
+    protected async loadModel(): Promise<void> {
+        try {
+            await super.loadModel();
+            this.logger.info(`✓ CTC model ${this.config.id} loaded successfully`);
+        } catch (error) {
+            this.logger.error(`Failed to load CTC model ${this.config.id}:`, error);
+            throw new ModelUnavailableError(`Failed to initialize CTC model ${this.config.id}: ${describeError(error)}`, {
+                cause: error,
+                details: { model: this.config.id },
+            });
+        }
+    }
+
+    public async predict(imageBuffer: Buffer, options: PredictOptions = {}): Promise<PredictionResult<string>> {
+        return this.withCache(imageBuffer, options, () => this.runPrediction(imageBuffer, options));
+    }
+
+    /**
+     * Preprocess, run and decode a single image
+     */
+    private async runPrediction(imageBuffer: Buffer, options: PredictOptions): Promise<PredictionResult<string>> {
+        const startTime = performance.now();
+
+        try {
+            await this.initialize();
+
+            // Preprocess image
+            const preprocessed = await this.preprocessor.preprocess(imageBuffer);
+
+            // Run inference
+            const output = await this.runInference(preprocessed);
+            const raw = output.data;
+
+            // Decode the variable-length sequence
+            const results = this.decoder.decode(raw);
+
+            const inferenceTime = performance.now() - startTime;
+
+            return {
+                results,
+                raw,
+                inferenceTime,
+                model: output.model,
+                ...(options.debug && { debug: await this.renderDebug(imageBuffer, preprocessed, results) }),
+            };
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+
+            this.logger.error(`Error during CTC inference (${this.config.id}):`, error);
+            throw new InferenceError(`Failed to recognize text: ${describeError(error)}`, {
+                cause: error,
+                details: { model: this.config.id, version: this.active?.version.hash },
+            });
+        }
+    }
+}
@@ -0,0 +1,4 @@
+export { CTCModelService } from "./ctc.service.js";
+export { CTCDecoder } from "./ctc.decoder.js";
+export type { CTCModelConfig } from "./ctc.service.js";
+export type { CTCDecoderConfig, CTCScoreType } from "./ctc.decoder.js";
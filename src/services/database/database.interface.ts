@@ -0,0 +1,67 @@
+import type { QueryResult, QueryResultRow } from "pg";
+
+/**
+ * Anything that can run a query, a pg Pool, PoolClient or an in-memory stand-in such as pg-mem
+ */
+export interface DatabaseClient {
+    query<R extends QueryResultRow = any>(text: string, values?: any[]): Promise<QueryResult<R>>;
+}
+
+export interface DatabasePoolClient extends DatabaseClient {
+    release(error?: Error | boolean): void;
+}
+
+/**
+ * Connection pool the database service runs on
+ */
+export interface DatabasePool extends DatabaseClient {
+    connect(): Promise<DatabasePoolClient>;
+    end(): Promise<void>;
+}
+
+/**
+ * Typed query helpers shared by the service and open transactions
+ */
+export interface QueryExecutor {
+    /**
+     * Run a parameterized query and return its rows
+     */
+    query<R extends QueryResultRow = QueryResultRow>(sql: string, params?: readonly unknown[]): Promise<R[]>;
+    /**
+     * Run a parameterized query and return its first row, if any
+     */
+    queryOne<R extends QueryResultRow = QueryResultRow>(sql: string, params?: readonly unknown[]): Promise<R | null>;
+}
+
+/**
+ * Database connection settings
+ */
+export interface DatabaseConfig {
+    connectionString: string;
+    /**
+     * Maximum open connections in the pool
+     */
+    maxConnections: number;
+    /**
+     * Idle connections are closed after this long
+     */
+    idleTimeoutMs: number;
+    /**
+     * Time to wait for a connection before failing
+     */
+    connectionTimeoutMs: number;
+    /**
+     * Server-side limit per statement, 0 disables it
+     */
+    statementTimeoutMs: number;
+    ssl: boolean;
+}
+
+/**
+ * Result of a health check round trip
+ */
+export interface DatabaseHealth {
+    healthy: boolean;
+    latencyMs: number;
+    error?: string;
+}
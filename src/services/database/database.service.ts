@@ -0,0 +1,135 @@
+import pg from "pg";
+import type { QueryResultRow } from "pg";
+import type { LoggerService } from "@/services/logger.service.js";
+import { describeError } from "@/errors/app.errors.js";
+import type {
+    DatabaseClient,
+    DatabaseConfig,
+    DatabaseHealth,
+    DatabasePool,
+    QueryExecutor,
+} from "./database.interface.js";
+
+export const DEFAULT_DATABASE_CONFIG: Omit<DatabaseConfig, "connectionString"> = {
+    maxConnections: 10,
+    idleTimeoutMs: 30_000,
+    connectionTimeoutMs: 5_000,
+    statementTimeoutMs: 15_000,
+    ssl: false,
+};
+
+/**
+ * Bind the typed query helpers to a client
+ */
+const createExecutor = (client: DatabaseClient): QueryExecutor => ({
+    async query<R extends QueryResultRow>(sql: string, params: readonly unknown[] = []) {
+        const result = await client.query<R>(sql, [...params]);
+        return result.rows;
+    },
+    async queryOne<R extends QueryResultRow>(sql: string, params: readonly unknown[] = []) {
+        const result = await client.query<R>(sql, [...params]);
+        return result.rows[0] ?? null;
+    },
+});
+
+/**
+ * Postgres access through a connection pool
+ */
+export class DatabaseService implements QueryExecutor {
+    private readonly pool: DatabasePool;
+    private readonly executor: QueryExecutor;
+    private readonly logger: LoggerService;
+    private closed = false;
+
+    /**
+     * @param pool Pool to run on instead of one built from config, e.g. an in-memory stand-in
+     */
+    constructor(config: Pick<DatabaseConfig, "connectionString"> & Partial<DatabaseConfig>, logger: LoggerService, pool?: DatabasePool) {
+        const options = { ...DEFAULT_DATABASE_CONFIG, ...config };
+
+        this.logger = logger;
+        this.pool = pool ?? new pg.Pool({
+            connectionString: options.connectionString,
+            max: options.maxConnections,
+            idleTimeoutMillis: options.idleTimeoutMs,
+            connectionTimeoutMillis: options.connectionTimeoutMs,
+            ...(options.statementTimeoutMs > 0 && { statement_timeout: options.statementTimeoutMs }),
+            ...(options.ssl && { ssl: { rejectUnauthorized: false } }),
+        });
+        this.executor = createExecutor(this.pool);
+
+        if (this.pool instanceof pg.Pool) {
+            // Idle clients erroring (e.g. the server restarting) would otherwise crash the process
+            this.pool.on("error", error => this.logger.error("Idle database client error:", error));
+        }
+    }
+
+    query<R extends QueryResultRow = QueryResultRow>(sql: string, params?: readonly unknown[]): Promise<R[]> {
+        return this.executor.query<R>(sql, params);
+    }
+
+    queryOne<R extends QueryResultRow = QueryResultRow>(sql: string, params?: readonly unknown[]): Promise<R | null> {
+        return this.executor.queryOne<R>(sql, params);
+    }
+
+    /**
+     * Run fn inside a transaction on a dedicated connection
+     * Commits when fn resolves and rolls back when it throws
+     */
+    async transaction<T>(fn: (tx: QueryExecutor) => Promise<T>): Promise<T> {
+        const client = await this.pool.connect();
+        let broken = false;
+
+        try {
+            await client.query("BEGIN");
+            const result = await fn(createExecutor(client));
+            await client.query("COMMIT");
+            return result;
+        } catch (error) {
+            try {
+                await client.query("ROLLBACK");
+            } catch (rollbackError) {
+                // The connection is unusable, drop it instead of returning it to the pool
+                broken = true;
+                this.logger.error("Failed to roll back transaction:", rollbackError);
+            }
+            throw error;
+        } finally {
+            client.release(broken);
+        }
+    }
+
+    /**
+     * Round trip a trivial query, never throws
+     */
+    async healthCheck(): Promise<DatabaseHealth> {
+        const start = performance.now();
+
+        try {
+            await this.pool.query("SELECT 1");
+            return { healthy: true, latencyMs: performance.now() - start };
+        } catch (error) {
+            return { healthy: false, latencyMs: performance.now() - start, error: describeError(error) };
+        }
+    }
+
+    /**
+     * Fail fast when the database cannot be reached
+     */
+    async connect(): Promise<void> {
+        const health = await this.healthCheck();
+        if (!health.healthy) {
+            throw new Error(`Could not connect to the database: ${health.error}`);
+        }
+
+        this.logger.info(`Connected to the database in ${health.latencyMs.toFixed(2)}ms`);
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) return;
+        this.closed = true;
+
+        await this.pool.end();
+        this.logger.debug("Database pool closed");
+    }
+}
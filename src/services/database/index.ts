@@ -0,0 +1,11 @@
+export { DatabaseService, DEFAULT_DATABASE_CONFIG } from "./database.service.js";
+export { Migrator, loadMigrations } from "./migrator.js";
+export type {
+    DatabaseClient,
+    DatabasePool,
+    DatabasePoolClient,
+    DatabaseConfig,
+    DatabaseHealth,
+    QueryExecutor,
+} from "./database.interface.js";
+export type { Migration } from "./migrator.js";
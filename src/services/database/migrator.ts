@@ -0,0 +1,143 @@
+import { createHash } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { LoggerService } from "@/services/logger.service.js";
+import type { DatabaseService } from "./database.service.js";
+
+/**
+ * A versioned SQL file, named `<version>_<name>.sql`
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    sql: string;
+    checksum: string;
+}
+
+/**
+ * Row of the schema_migrations bookkeeping table
+ */
+interface AppliedMigration {
+    version: number;
+    name: string;
+    checksum: string;
+}
+
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.sql$/;
+
+/**
+ * Advisory lock key serializing migrations across bot instances
+ */
+const MIGRATION_LOCK_ID = 4_827_301;
+
+const CREATE_MIGRATIONS_TABLE = `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )
+`;
+
+const formatMigration = (migration: Pick<Migration, "version" | "name">): string =>
+    `${String(migration.version).padStart(3, "0")}_${migration.name}`;
+
+/**
+ * Read every migration in a directory, ordered by version
+ */
+export const loadMigrations = async (dir: string): Promise<Migration[]> => {
+    const files = (await readdir(dir)).filter(file => file.endsWith(".sql"));
+    const migrations: Migration[] = [];
+
+    for (const file of files) {
+        const match = MIGRATION_FILE.exec(file);
+        if (!match) {
+            throw new Error(`Invalid migration file name "${file}", expected <version>_<name>.sql`);
+        }
+
+        const sql = await readFile(join(dir, file), "utf8");
+        migrations.push({
+            version: Number(match[1]),
+            name: match[2]!,
+            sql,
+            checksum: createHash("sha256").update(sql).digest("hex"),
+        });
+    }
+
+    migrations.sort((a, b) => a.version - b.version);
+
+    for (let i = 1; i < migrations.length; i++) {
+        if (migrations[i]!.version === migrations[i - 1]!.version) {
+            throw new Error(`Duplicate migration version ${migrations[i]!.version}`);
+        }
+    }
+
+    return migrations;
+};
+
+/**
+ * Applies pending migrations, each in its own transaction
+ */
+export class Migrator {
+    private readonly db: DatabaseService;
+    private readonly logger: LoggerService;
+
+    constructor(db: DatabaseService, logger: LoggerService) {
+        this.db = db;
+        this.logger = logger;
+    }
+
+    /**
+     * Apply every migration not yet recorded, returning the ones applied now
+     * Throws if an applied migration file was edited afterwards
+     */
+    async migrate(migrations: Migration[]): Promise<Migration[]> {
+        await this.db.query(CREATE_MIGRATIONS_TABLE);
+
+        const applied = new Map((await this.getApplied()).map(row => [row.version, row]));
+        const known = new Set(migrations.map(migration => migration.version));
+
+        for (const row of applied.values()) {
+            if (!known.has(row.version)) {
+                this.logger.warn(`Database has migration ${formatMigration(row)} which is missing from this build`);
+            }
+        }
+
+        const pending = migrations.filter(migration => {
+            const row = applied.get(migration.version);
+            if (row && row.checksum !== migration.checksum) {
+                throw new Error(`Migration ${formatMigration(migration)} was modified after being applied`);
+            }
+            return !row;
+        });
+
+        const ran: Migration[] = [];
+        for (const migration of pending) {
+            const didRun = await this.db.transaction(async tx => {
+                // Another instance may have applied it while we waited for the lock
+                await tx.query("SELECT pg_advisory_xact_lock($1)", [MIGRATION_LOCK_ID]);
+                if (await tx.queryOne("SELECT 1 FROM schema_migrations WHERE version = $1", [migration.version])) {
+                    return false;
+                }
+
+                await tx.query(migration.sql);
+                await tx.query(
+                    "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+                    [migration.version, migration.name, migration.checksum]
+                );
+                return true;
+            });
+
+            if (didRun) {
+                ran.push(migration);
+                this.logger.info(`Applied migration ${formatMigration(migration)}`);
+            }
+        }
+
+        return ran;
+    }
+
+    async getApplied(): Promise<AppliedMigration[]> {
+        return this.db.query<AppliedMigration>("SELECT version, name, checksum FROM schema_migrations ORDER BY version");
+    }
+}
@@ -0,0 +1,74 @@
+import sharp from "sharp";
+import type { PreprocessResult } from "@/services/interfaces/preprocessor.interface.js";
+import type { BoundingBox } from "@/services/yolo/yolo.decoder.js";
+
+const PALETTE = ["#ff3838", "#2c99a8", "#ff9d97", "#48f90a", "#ff701f", "#3ddb86", "#ffb21d", "#00c2ff", "#cfd231", "#8438ff"];
+
+const escapeXml = (value: string): string => {
+    return value.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+};
+
+/**
+ * Render a preprocessed tensor back to a PNG
+ * Values are min-max scaled, so normalized and binarized tensors are both visible
+ */
+export const renderTensor = async (result: PreprocessResult): Promise<Buffer> => {
+    const { data, width, height, channels } = result;
+    const pixels = width * height;
+    const planar = result.metadata?.layout === "NCHW";
+
+    if (data.length !== pixels * channels) {
+        throw new Error(`Tensor has ${data.length} values, expected ${width}x${height}x${channels}`);
+    }
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (const value of data) {
+        if (value < min) min = value;
+        if (value > max) max = value;
+    }
+
+    const range = max - min || 1;
+    const buffer = Buffer.alloc(data.length);
+
+    for (let p = 0; p < pixels; p++) {
+        for (let c = 0; c < channels; c++) {
+            const value = data[planar ? c * pixels + p : p * channels + c]!;
+            buffer[p * channels + c] = Math.round((value - min) / range * 255);
+        }
+    }
+
+    return sharp(buffer, { raw: { width, height, channels: channels as 1 | 2 | 3 | 4 } })
+        .png()
+        .toBuffer();
+};
+
+/**
+ * Draw labelled bounding boxes onto the original image
+ */
+export const drawDetections = async (image: Buffer, boxes: BoundingBox[]): Promise<Buffer> => {
+    const metadata = await sharp(image).metadata();
+    if (!metadata.width || !metadata.height) {
+        throw new Error("Unable to read image dimensions");
+    }
+
+    const { width, height } = metadata;
+    const stroke = Math.max(1, Math.round(Math.min(width, height) / 200));
+    const fontSize = Math.max(10, stroke * 6);
+
+    const shapes = boxes.map(box => {
+        const color = PALETTE[box.classIndex % PALETTE.length]!;
+        const label = escapeXml(`${box.class} ${(box.confidence * 100).toFixed(0)}%`);
+        const labelY = box.y >= fontSize ? box.y - stroke : box.y + fontSize;
+
+        return `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="none" stroke="${color}" stroke-width="${stroke}"/>` +
+            `<text x="${box.x}" y="${labelY}" font-family="sans-serif" font-size="${fontSize}" fill="${color}">${label}</text>`;
+    });
+
+    const overlay = Buffer.from(`<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">${shapes.join("")}</svg>`);
+
+    return sharp(image)
+        .composite([{ input: overlay }])
+        .png()
+        .toBuffer();
+};
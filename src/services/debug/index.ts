@@ -0,0 +1 @@
+export { renderTensor, drawDetections } from "./debug.renderer.js";
@@ -0,0 +1,274 @@
+import sharp from "sharp";
+import { fileTypeFromBuffer } from "file-type";
+import type { LoggerService } from "@/services/logger.service.js";
+import { DownloadError } from "@/errors/app.errors.js";
+
+/**
+ * Reason an image could not be fetched
+ */
+export type ImageFetchReason =
+    | "INVALID_URL"
+    | "UNTRUSTED_HOST"
+    | "TOO_MANY_REDIRECTS"
+    | "TIMEOUT"
+    | "NETWORK"
+    | "HTTP_ERROR"
+    | "TOO_LARGE"
+    | "INVALID_TYPE"
+    | "INVALID_IMAGE"
+    | "DIMENSIONS_EXCEEDED";
+
+/**
+ * Error raised by the image fetcher, `retryable` failures are retried with backoff
+ * Messages are safe to show to users
+ */
+export class ImageFetchError extends DownloadError {
+    public readonly reason: ImageFetchReason;
+
+    constructor(reason: ImageFetchReason, message: string, options: { retryable?: boolean; cause?: unknown } = {}) {
+        super(message, message, { ...options, details: { reason } });
+        this.reason = reason;
+    }
+}
+
+/**
+ * Image fetcher limits
+ */
+export interface ImageFetcherConfig {
+    /**
+     * Hosts images may be fetched from, subdomains included
+     */
+    allowedHosts: string[];
+    allowedMimeTypes: string[];
+    maxBytes: number;
+    maxWidth: number;
+    maxHeight: number;
+    /**
+     * Maximum width * height, guards against decompression bombs
+     */
+    maxPixels: number;
+    /**
+     * Timeout of a single attempt, including redirects and the body
+     */
+    timeoutMs: number;
+    maxRedirects: number;
+    /**
+     * Additional attempts after a retryable failure
+     */
+    retries: number;
+    /**
+     * Delay before the first retry, doubled for each further retry
+     */
+    retryDelayMs: number;
+    userAgent: string;
+}
+
+/**
+ * Downloaded and validated image
+ */
+export interface FetchedImage {
+    buffer: Buffer;
+    mimeType: string;
+    width: number;
+    height: number;
+    /**
+     * URL the image was served from after redirects
+     */
+    url: string;
+}
+
+export const DEFAULT_IMAGE_FETCHER_CONFIG: ImageFetcherConfig = {
+    allowedHosts: [
+        "cdn.discordapp.com",
+        "media.discordapp.net",
+        "images-ext-1.discordapp.net",
+        "images-ext-2.discordapp.net",
+    ],
+    allowedMimeTypes: ["image/png", "image/webp", "image/jpeg", "image/jpg"],
+    maxBytes: 10 * 1024 * 1024, // 10MB
+    maxWidth: 4096,
+    maxHeight: 4096,
+    maxPixels: 16_000_000,
+    timeoutMs: 10_000,
+    maxRedirects: 3,
+    retries: 2,
+    retryDelayMs: 250,
+    userAgent: "Mozilla/5.0 (compatible; DiscordBot/1.0)",
+};
+
+/**
+ * Downloads images from trusted hosts with size, type and dimension checks
+ */
+export class ImageFetcher {
+    private readonly config: ImageFetcherConfig;
+    private readonly logger: LoggerService;
+
+    constructor(config: Partial<ImageFetcherConfig>, logger: LoggerService) {
+        this.config = { ...DEFAULT_IMAGE_FETCHER_CONFIG, ...config };
+        this.logger = logger;
+    }
+
+    /**
+     * Fetch and validate an image, retrying transient failures
+     */
+    public async fetch(url: string): Promise<FetchedImage> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.attempt(url);
+            } catch (error) {
+                const retryable = error instanceof ImageFetchError && error.retryable;
+                if (!retryable || attempt >= this.config.retries) {
+                    throw error;
+                }
+
+                const delay = this.config.retryDelayMs * 2 ** attempt;
+                this.logger.warn(`Image fetch failed (${error.reason}), retrying in ${delay}ms: ${error.message}`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    /**
+     * Check a URL is https and on an allowed host
+     */
+    public validateUrl(urlString: string): URL {
+        let url: URL;
+        try {
+            url = new URL(urlString);
+        } catch (error) {
+            throw new ImageFetchError("INVALID_URL", "Invalid image URL.", { cause: error });
+        }
+
+        if (url.protocol !== "https:") {
+            throw new ImageFetchError("INVALID_URL", "Only HTTPS image URLs are allowed.");
+        }
+
+        const trusted = this.config.allowedHosts.some(host =>
+            url.hostname === host || url.hostname.endsWith(`.${host}`)
+        );
+        if (!trusted) {
+            throw new ImageFetchError("UNTRUSTED_HOST", `Untrusted image host ${url.hostname}.`);
+        }
+
+        return url;
+    }
+
+    private async attempt(urlString: string): Promise<FetchedImage> {
+        const signal = AbortSignal.timeout(this.config.timeoutMs);
+
+        try {
+            const response = await this.follow(this.validateUrl(urlString), signal);
+            const buffer = await this.readBody(response);
+            return await this.inspect(buffer, response.url);
+        } catch (error) {
+            if (error instanceof ImageFetchError) throw error;
+
+            if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+                throw new ImageFetchError("TIMEOUT", "Image download timed out.", { retryable: true, cause: error });
+            }
+
+            throw new ImageFetchError("NETWORK", "Failed to download image.", { retryable: true, cause: error });
+        }
+    }
+
+    /**
+     * Follow redirects manually so every hop is checked against the allow-list
+     */
+    private async follow(url: URL, signal: AbortSignal): Promise<Response> {
+        for (let hops = 0; ; hops++) {
+            const response = await fetch(url, {
+                signal,
+                redirect: "manual",
+                headers: { "User-Agent": this.config.userAgent },
+            });
+
+            const location = response.headers.get("location");
+            if (response.status < 300 || response.status >= 400 || !location) {
+                if (!response.ok) {
+                    // Server errors and rate limits are worth another attempt
+                    const retryable = response.status >= 500 || response.status === 429;
+                    throw new ImageFetchError("HTTP_ERROR", `Download failed: ${response.status} ${response.statusText}`, { retryable });
+                }
+                return response;
+            }
+
+            await response.body?.cancel();
+
+            if (hops >= this.config.maxRedirects) {
+                throw new ImageFetchError("TOO_MANY_REDIRECTS", `Image URL redirected more than ${this.config.maxRedirects} times.`);
+            }
+
+            url = this.validateUrl(new URL(location, url).toString());
+        }
+    }
+
+    /**
+     * Read the body in chunks, enforcing the size limit
+     */
+    private async readBody(response: Response): Promise<Buffer> {
+        const { maxBytes, allowedMimeTypes } = this.config;
+
+        const contentLength = response.headers.get("content-length");
+        if (contentLength && parseInt(contentLength) > maxBytes) {
+            throw new ImageFetchError("TOO_LARGE", `File too large: ${contentLength} bytes (max: ${maxBytes} bytes)`);
+        }
+
+        const contentType = response.headers.get("content-type")?.split(";")[0]?.trim();
+        if (contentType && !allowedMimeTypes.includes(contentType)) {
+            throw new ImageFetchError("INVALID_TYPE", `Invalid content type: ${contentType}. Only images are allowed.`);
+        }
+
+        const reader = response.body?.getReader();
+        if (!reader) {
+            throw new ImageFetchError("NETWORK", "Unable to read response body", { retryable: true });
+        }
+
+        const chunks: Uint8Array[] = [];
+        let totalSize = 0;
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            totalSize += value.length;
+            if (totalSize > maxBytes) {
+                await reader.cancel();
+                throw new ImageFetchError("TOO_LARGE", `File exceeds maximum size of ${maxBytes} bytes`);
+            }
+
+            chunks.push(value);
+        }
+
+        return Buffer.concat(chunks);
+    }
+
+    /**
+     * Verify magic bytes and header dimensions without decoding the pixels
+     */
+    private async inspect(buffer: Buffer, url: string): Promise<FetchedImage> {
+        const { allowedMimeTypes, maxWidth, maxHeight, maxPixels } = this.config;
+
+        const fileType = await fileTypeFromBuffer(buffer);
+        if (!fileType || !allowedMimeTypes.includes(fileType.mime)) {
+            throw new ImageFetchError("INVALID_IMAGE", "File is not a valid image (invalid file signature)");
+        }
+
+        const metadata = await sharp(buffer).metadata().catch(error => {
+            throw new ImageFetchError("INVALID_IMAGE", "Unable to read image header", { cause: error });
+        });
+
+        const { width, height } = metadata;
+        if (!width || !height) {
+            throw new ImageFetchError("INVALID_IMAGE", "Unable to read image dimensions");
+        }
+
+        if (width > maxWidth || height > maxHeight || width * height > maxPixels) {
+            throw new ImageFetchError(
+                "DIMENSIONS_EXCEEDED",
+                `Image is ${width}x${height}, maximum is ${maxWidth}x${maxHeight} (${maxPixels} pixels)`
+            );
+        }
+
+        return { buffer, mimeType: fileType.mime, width, height, url };
+    }
+}
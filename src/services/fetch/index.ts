@@ -0,0 +1,2 @@
+export { ImageFetcher, ImageFetchError, DEFAULT_IMAGE_FETCHER_CONFIG } from "./image.fetcher.js";
+export type { ImageFetcherConfig, ImageFetchReason, FetchedImage } from "./image.fetcher.js";
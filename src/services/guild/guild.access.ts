@@ -0,0 +1,93 @@
+import type { LoggerService } from "@/services/logger.service.js";
+import type { DatabaseService, QueryExecutor } from "@/services/database/index.js";
+
+export interface GuildAccessConfig {
+    /**
+     * Guilds allowed from the environment, merged with those allowed through /admin
+     */
+    allowedGuildIds: string[];
+}
+
+export interface GuildAccessSummary {
+    allowed: string[];
+    denied: string[];
+}
+
+/**
+ * Which guilds may use usage-limited commands
+ * Denied guilds are always refused; once any guild is allowed, only allowed guilds are served
+ */
+export class GuildAccess {
+    private readonly config: GuildAccessConfig;
+    private readonly db: DatabaseService | null;
+    private readonly logger: LoggerService;
+    /**
+     * guild id -> allowed, mirrors the guild_access table
+     */
+    private readonly entries = new Map<string, boolean>();
+
+    /**
+     * @param db Where /admin changes are stored, without it only the configured list applies
+     */
+    constructor(config: Partial<GuildAccessConfig>, logger: LoggerService, db: DatabaseService | null = null) {
+        this.config = { allowedGuildIds: [], ...config };
+        this.logger = logger;
+        this.db = db;
+    }
+
+    /**
+     * Load stored entries, call once before checking access
+     */
+    async load(): Promise<void> {
+        if (!this.db) return;
+
+        const rows = await this.db.query<{ guild_id: string; allowed: boolean }>("SELECT guild_id, allowed FROM guild_access");
+        this.entries.clear();
+        for (const row of rows) {
+            this.entries.set(row.guild_id, row.allowed);
+        }
+
+        this.logger.debug(`Loaded ${rows.length} guild access entr${rows.length === 1 ? "y" : "ies"}`);
+    }
+
+    /**
+     * Direct messages (null guild) are only served while no allow list is active
+     */
+    isAllowed(guildId: string | null): boolean {
+        if (guildId && this.entries.get(guildId) === false) return false;
+
+        const allowList = this.getSummary().allowed;
+        return allowList.length === 0 || (guildId !== null && allowList.includes(guildId));
+    }
+
+    getSummary(): GuildAccessSummary {
+        const stored = [...this.entries];
+        return {
+            allowed: [...new Set([
+                ...this.config.allowedGuildIds.filter(id => this.entries.get(id) !== false),
+                ...stored.filter(([, allowed]) => allowed).map(([id]) => id),
+            ])],
+            denied: stored.filter(([, allowed]) => !allowed).map(([id]) => id),
+        };
+    }
+
+    /**
+     * Store a decision, pass the transaction of the audit entry so both commit together
+     * The in-memory view is updated by `apply` once the transaction committed
+     */
+    async set(guildId: string, allowed: boolean, actorId: string, executor: QueryExecutor | null = this.db): Promise<void> {
+        if (!executor) {
+            throw new Error("Guild access changes require a database");
+        }
+
+        await executor.query(
+            `INSERT INTO guild_access (guild_id, allowed, updated_by) VALUES ($1, $2, $3)
+             ON CONFLICT (guild_id) DO UPDATE SET allowed = EXCLUDED.allowed, updated_by = EXCLUDED.updated_by, updated_at = now()`,
+            [guildId, allowed, actorId]
+        );
+    }
+
+    apply(guildId: string, allowed: boolean): void {
+        this.entries.set(guildId, allowed);
+    }
+}
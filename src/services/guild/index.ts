@@ -0,0 +1,2 @@
+export { GuildAccess } from "./guild.access.js";
+export type { GuildAccessConfig, GuildAccessSummary } from "./guild.access.js";
@@ -0,0 +1,91 @@
+import type { ChatInputCommandInteraction } from "discord.js";
+import type { LoggerService } from "@/services/logger.service.js";
+import type { QueryExecutor } from "@/services/database/index.js";
+
+export interface CommandHistoryEntry {
+    interaction: ChatInputCommandInteraction;
+    success: boolean;
+    durationMs: number | null;
+}
+
+export interface CommandUsage {
+    command: string;
+    total: number;
+    failed: number;
+}
+
+/**
+ * Writes finished slash commands to command_history
+ */
+export class CommandHistory {
+    private readonly db: QueryExecutor;
+    private readonly logger: LoggerService;
+    /**
+     * Start times of running subcommands, the subcommand plugin events carry no duration
+     */
+    private readonly started = new WeakMap<ChatInputCommandInteraction, number>();
+
+    constructor(db: QueryExecutor, logger: LoggerService) {
+        this.db = db;
+        this.logger = logger;
+    }
+
+    /**
+     * Command name, followed by the group and subcommand when there is one
+     */
+    static describe(interaction: ChatInputCommandInteraction): string {
+        const { options } = interaction;
+        return [interaction.commandName, options.getSubcommandGroup(false), options.getSubcommand(false)].filter(Boolean).join(" ");
+    }
+
+    start(interaction: ChatInputCommandInteraction): void {
+        this.started.set(interaction, performance.now());
+    }
+
+    /**
+     * Milliseconds since `start()`, or null when it was never called for this interaction
+     */
+    elapsed(interaction: ChatInputCommandInteraction): number | null {
+        const startedAt = this.started.get(interaction);
+        this.started.delete(interaction);
+        return startedAt === undefined ? null : performance.now() - startedAt;
+    }
+
+    /**
+     * Failures are logged and swallowed, history must never break a command
+     */
+    async record({ interaction, success, durationMs }: CommandHistoryEntry): Promise<void> {
+        const command = CommandHistory.describe(interaction);
+
+        try {
+            await this.db.query(
+                `INSERT INTO command_history (interaction_id, command, user_id, guild_id, success, duration_ms)
+                 VALUES ($1, $2, $3, $4, $5, $6)`,
+                [
+                    interaction.id,
+                    command,
+                    interaction.user.id,
+                    interaction.guildId,
+                    success,
+                    durationMs !== null && durationMs >= 0 ? durationMs : null,
+                ]
+            );
+        } catch (error) {
+            this.logger.warn(`Failed to record command history for /${command}:`, error);
+        }
+    }
+
+    /**
+     * Runs and failures per command over the last `hours`, busiest first
+     */
+    async usageSince(hours: number): Promise<CommandUsage[]> {
+        const rows = await this.db.query<{ command: string; total: string; failed: string }>(
+            `SELECT command, count(*) AS total, count(*) FILTER (WHERE NOT success) AS failed
+             FROM command_history WHERE created_at > now() - make_interval(hours => $1)
+             GROUP BY command ORDER BY count(*) DESC`,
+            [hours]
+        );
+
+        return rows.map(row => ({ command: row.command, total: Number(row.total), failed: Number(row.failed) }));
+    }
+}
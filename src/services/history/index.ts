@@ -0,0 +1,2 @@
+export { CommandHistory } from "./command.history.js";
+export type { CommandHistoryEntry, CommandUsage } from "./command.history.js";
@@ -1,7 +1,6 @@
 import sharp, { type Sharp } from "sharp";
 import { BasePreprocessor, type PreprocessConfig, type PreprocessResult } from "@/services/interfaces/preprocessor.interface.js";
-import { container } from "@/container/container.js";
-import { TOKENS } from "@/container/tokens.js";
+import { InvalidInputError, describeError } from "@/errors/app.errors.js";
 import type { LoggerService } from "@/services/logger.service.js";
 
 /**
@@ -25,8 +24,7 @@ export class HuntbotPreprocessor extends BasePreprocessor<HuntbotPreprocessConfi
         backgroundColor: { r: 0, g: 0, b: 0, alpha: 0 },
     };
 
-    constructor(config?: Partial<HuntbotPreprocessConfig>) {
-        const logger = container.resolve<LoggerService>(TOKENS.Logger);
+    constructor(config: Partial<HuntbotPreprocessConfig>, logger: LoggerService) {
         super(
             config as HuntbotPreprocessConfig,
             HuntbotPreprocessor.DEFAULTS,
@@ -91,8 +89,10 @@ export class HuntbotPreprocessor extends BasePreprocessor<HuntbotPreprocessConfi
                 channels: this.config.channels,
             };
         } catch (error) {
-            throw new Error(
-                `Image preprocessing failed: ${error instanceof Error ? error.message : String(error)}`
+            throw new InvalidInputError(
+                `Image preprocessing failed: ${describeError(error)}`,
+                "The image could not be read, please send a valid PNG, JPEG or WebP image.",
+                { cause: error }
             );
         }
     }
@@ -166,3 +166,15 @@ export class HuntbotPreprocessor extends BasePreprocessor<HuntbotPreprocessConfi
         return normalized;
     }
 }
+
+/**
+ * Preprocess a single image, returning only the model input
+ */
+export const huntbotPreprocess = async (
+    imageBuffer: Buffer,
+    logger: LoggerService,
+    config: Partial<HuntbotPreprocessConfig> = {}
+): Promise<Float32Array> => {
+    const result = await new HuntbotPreprocessor(config, logger).preprocess(imageBuffer);
+    return result.data;
+};
@@ -1,5 +1,5 @@
 export { HuntbotModelService } from "./huntbot.service.js";
-export { HuntbotPreprocessor } from "./huntbot.preprocessor.js";
+export { HuntbotPreprocessor, huntbotPreprocess } from "./huntbot.preprocessor.js";
 export { HuntbotDecoder } from "./huntbot.decoder.js";
 export type { HuntbotModelConfig } from "./huntbot.service.js";
 export type { HuntbotPreprocessConfig } from "./huntbot.preprocessor.js";
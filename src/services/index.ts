@@ -3,6 +3,46 @@ export * from "./interfaces/preprocessor.interface.js";
 export * from "./interfaces/decoder.interface.js";
 export * from "./interfaces/model.interface.js";
 
+// Decoders
+export * from "./charset/index.js";
+export * from "./onehot/index.js";
+
 // Models
 export * from "./huntbot/index.js";
 export * from "./yolo/index.js";
+export * from "./ctc/index.js";
+
+// Preprocessing
+export * from "./pipeline/index.js";
+
+// Debugging
+export * from "./debug/index.js";
+
+// Caching
+export * from "./cache/index.js";
+
+// Fetching
+export * from "./fetch/index.js";
+
+// Database
+export * from "./database/index.js";
+export * from "./history/index.js";
+
+// Users
+export * from "./user/index.js";
+
+// Administration
+export * from "./audit/index.js";
+export * from "./guild/index.js";
+
+// Redaction
+export * from "./redaction/index.js";
+
+// Registry
+export * from "./registry/index.js";
+
+// Manifests
+export * from "./manifest/index.js";
+
+// Inference
+export * from "./inference/index.js";
@@ -0,0 +1,7 @@
+export { InferencePool, InferenceQueueFullError } from "./inference.pool.js";
+export { MicroBatcher } from "./micro-batcher.js";
+export { toSessionOptions } from "./inference.interface.js";
+export { compareSignatures } from "./signature.js";
+export type { InferencePoolOptions } from "./inference.pool.js";
+export type { BatchingConfig } from "./micro-batcher.js";
+export type { ModelSession, SessionConfig, SessionFactory, SerializedTensor, SessionSignature } from "./inference.interface.js";
@@ -0,0 +1,99 @@
+import { Tensor, type InferenceSession } from "onnxruntime-node";
+
+/**
+ * Minimal session surface used by model services
+ * Implemented by `InferenceSession` and by sessions living in the inference pool
+ */
+export interface ModelSession {
+    readonly inputNames: readonly string[];
+    readonly outputNames: readonly string[];
+    readonly inputMetadata: readonly InferenceSession.ValueMetadata[];
+    readonly outputMetadata: readonly InferenceSession.ValueMetadata[];
+    run(feeds: Record<string, Tensor>): Promise<Record<string, Tensor>>;
+    release(): Promise<void>;
+}
+
+/**
+ * Per-model ONNX Runtime session settings
+ */
+export interface SessionConfig {
+    intraOpNumThreads?: number;
+    interOpNumThreads?: number;
+    graphOptimizationLevel?: NonNullable<InferenceSession.SessionOptions["graphOptimizationLevel"]>;
+    executionMode?: NonNullable<InferenceSession.SessionOptions["executionMode"]>;
+    enableCpuMemArena?: boolean;
+    enableMemPattern?: boolean;
+    /**
+     * Run a synthetic input once after loading
+     */
+    warmup?: boolean;
+}
+
+/**
+ * Convert session config into ONNX Runtime options
+ */
+export const toSessionOptions = (config: SessionConfig = {}): InferenceSession.SessionOptions => {
+    const { warmup: _warmup, ...options } = config;
+    return options;
+};
+
+/**
+ * Creates a session from the contents of a model file
+ */
+export type SessionFactory = (
+    model: Uint8Array,
+    options?: InferenceSession.SessionOptions
+) => Promise<ModelSession>;
+
+/**
+ * Tensor in a form that can cross a worker boundary
+ */
+export interface SerializedTensor {
+    type: Tensor.Type;
+    data: Tensor.DataType;
+    dims: readonly number[];
+}
+
+/**
+ * Copy the fields of a tensor that survive postMessage
+ */
+export const serializeTensor = (tensor: Tensor): SerializedTensor => ({
+    type: tensor.type,
+    data: tensor.data,
+    dims: tensor.dims,
+});
+
+/**
+ * Rebuild a tensor received from the other side of a worker boundary
+ */
+export const deserializeTensor = (tensor: SerializedTensor): Tensor => new Tensor(tensor.type, tensor.data, tensor.dims);
+
+/**
+ * Session signature reported by a worker after loading
+ */
+export interface SessionSignature {
+    inputNames: string[];
+    outputNames: string[];
+    inputMetadata: InferenceSession.ValueMetadata[];
+    outputMetadata: InferenceSession.ValueMetadata[];
+}
+
+/**
+ * Messages sent from the pool to a worker
+ */
+export type WorkerRequest =
+    | { id: number; type: "load"; key: string; model: Uint8Array; options?: InferenceSession.SessionOptions }
+    | { id: number; type: "run"; key: string; feeds: Record<string, SerializedTensor> }
+    | { id: number; type: "release"; key: string };
+
+/**
+ * Payload of a successful worker response
+ */
+export type WorkerResult = SessionSignature | Record<string, SerializedTensor>;
+
+/**
+ * Messages sent from a worker back to the pool
+ */
+export type WorkerResponse =
+    | { id: number; ok: true; result?: WorkerResult }
+    | { id: number; ok: false; error: string };
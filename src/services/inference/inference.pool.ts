@@ -0,0 +1,315 @@
+import { Worker } from "node:worker_threads";
+import type { InferenceSession, Tensor } from "onnxruntime-node";
+import type { LoggerService } from "@/services/logger.service.js";
+import { RateLimitedError } from "@/errors/app.errors.js";
+import {
+    deserializeTensor,
+    serializeTensor,
+    type ModelSession,
+    type SerializedTensor,
+    type SessionSignature,
+    type WorkerRequest,
+    type WorkerResponse,
+} from "./inference.interface.js";
+
+const WORKER_URL = new URL("./inference.worker.js", import.meta.url);
+
+/**
+ * Inference pool configuration
+ */
+export interface InferencePoolOptions {
+    /**
+     * Number of worker threads, each holding a copy of every session
+     */
+    workers: number;
+    /**
+     * Maximum number of requests waiting for a free worker
+     */
+    maxQueueSize: number;
+}
+
+/**
+ * Thrown when the pool queue is full and cannot accept more requests
+ */
+export class InferenceQueueFullError extends RateLimitedError {
+    constructor(maxQueueSize: number) {
+        super(
+            `Inference queue is full (${maxQueueSize} pending requests)`,
+            "The bot is busy right now, please try again in a few seconds."
+        );
+    }
+}
+
+/**
+ * Worker request without the correlation id, distributed over the union
+ */
+type WorkerRequestBody = WorkerRequest extends infer R ? R extends WorkerRequest ? Omit<R, "id"> : never : never;
+
+interface PendingRequest {
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    busy: boolean;
+    pending: Map<number, PendingRequest>;
+}
+
+interface QueuedJob {
+    key: string;
+    feeds: Record<string, SerializedTensor>;
+    resolve: (outputs: Record<string, SerializedTensor>) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Kept so a respawned worker can load every live session again
+ */
+interface SessionSource {
+    model: Uint8Array;
+    options: InferenceSession.SessionOptions | undefined;
+}
+
+/**
+ * Pool of worker threads owning ONNX inference sessions
+ *
+ * Only `session.run` moves here, preprocessing stays on the main thread:
+ * - sharp already decodes and resizes on the libuv thread pool, only the normalization loops run in JS
+ * - preprocessors are built per model on the main thread and pipelines may hold custom step functions,
+ *   which cannot be sent to a worker
+ * - those loops take about 2ms for a huntbot image and about 30ms for a 1280x720 YOLO letterbox,
+ *   against hundreds of milliseconds for a blocking inference
+ */
+export class InferencePool {
+    private readonly options: InferencePoolOptions;
+    private readonly logger: LoggerService;
+    private readonly workers: PoolWorker[] = [];
+    private readonly queue: QueuedJob[] = [];
+    private readonly sessions = new Map<string, SessionSource>();
+    private nextRequestId = 0;
+    private nextSessionId = 0;
+    private closed = false;
+
+    constructor(options: InferencePoolOptions, logger: LoggerService) {
+        if (options.workers < 1) {
+            throw new Error("Inference pool requires at least one worker");
+        }
+
+        this.options = options;
+        this.logger = logger;
+
+        for (let i = 0; i < options.workers; i++) {
+            this.workers.push(this.spawn());
+        }
+
+        this.logger.info(`Inference pool started with ${options.workers} worker(s)`);
+    }
+
+    /**
+     * Load a model in every worker and return a session proxy
+     */
+    public async createSession(
+        model: Uint8Array,
+        options?: InferenceSession.SessionOptions
+    ): Promise<ModelSession> {
+        const key = `session-${++this.nextSessionId}`;
+        this.sessions.set(key, { model, options });
+
+        try {
+            const signatures = await Promise.all(
+                this.workers.map(worker => this.send<SessionSignature>(worker, this.loadRequest(key)))
+            );
+            return new PooledSession(this, key, signatures[0]!);
+        } catch (error) {
+            await this.releaseSession(key);
+            throw error;
+        }
+    }
+
+    /**
+     * Queue a run on the next free worker
+     */
+    public run(key: string, feeds: Record<string, SerializedTensor>): Promise<Record<string, SerializedTensor>> {
+        if (this.closed) {
+            return Promise.reject(new Error("Inference pool has been destroyed"));
+        }
+
+        if (this.queue.length >= this.options.maxQueueSize) {
+            return Promise.reject(new InferenceQueueFullError(this.options.maxQueueSize));
+        }
+
+        return new Promise((resolve, reject) => {
+            this.queue.push({ key, feeds, resolve, reject });
+            this.dispatch();
+        });
+    }
+
+    /**
+     * Release a session in every worker
+     */
+    public async releaseSession(key: string): Promise<void> {
+        this.sessions.delete(key);
+        await Promise.allSettled(
+            this.workers.map(worker => this.send(worker, { type: "release", key }))
+        );
+    }
+
+    /**
+     * Current pool usage
+     */
+    public getStats(): { workers: number; busy: number; queued: number } {
+        return {
+            workers: this.workers.length,
+            busy: this.workers.filter(w => w.busy).length,
+            queued: this.queue.length,
+        };
+    }
+
+    /**
+     * Reject queued work and terminate all workers
+     */
+    public async destroy(): Promise<void> {
+        this.closed = true;
+
+        for (const job of this.queue.splice(0)) {
+            job.reject(new Error("Inference pool has been destroyed"));
+        }
+
+        await Promise.allSettled(this.workers.map(w => w.worker.terminate()));
+        this.workers.length = 0;
+        this.sessions.clear();
+    }
+
+    private dispatch(): void {
+        while (this.queue.length > 0) {
+            const worker = this.workers.find(w => !w.busy);
+            if (!worker) return;
+
+            const job = this.queue.shift()!;
+            worker.busy = true;
+
+            this.send<Record<string, SerializedTensor>>(worker, { type: "run", key: job.key, feeds: job.feeds })
+                .then(job.resolve, job.reject)
+                .finally(() => {
+                    worker.busy = false;
+                    this.dispatch();
+                });
+        }
+    }
+
+    private loadRequest(key: string): WorkerRequestBody {
+        const source = this.sessions.get(key)!;
+        return source.options
+            ? { type: "load", key, model: source.model, options: source.options }
+            : { type: "load", key, model: source.model };
+    }
+
+    private send<T = unknown>(poolWorker: PoolWorker, body: WorkerRequestBody): Promise<T> {
+        const id = ++this.nextRequestId;
+
+        return new Promise<T>((resolve, reject) => {
+            poolWorker.pending.set(id, { resolve, reject });
+            poolWorker.worker.postMessage({ ...body, id } as WorkerRequest);
+        });
+    }
+
+    private spawn(): PoolWorker {
+        const poolWorker: PoolWorker = {
+            worker: new Worker(WORKER_URL),
+            busy: false,
+            pending: new Map(),
+        };
+
+        poolWorker.worker.on("message", (response: WorkerResponse) => {
+            const pending = poolWorker.pending.get(response.id);
+            if (!pending) return;
+
+            poolWorker.pending.delete(response.id);
+            if (response.ok) {
+                pending.resolve(response.result);
+            } else {
+                pending.reject(new Error(response.error));
+            }
+        });
+
+        poolWorker.worker.on("error", (error) => {
+            this.logger.error("Inference worker crashed:", error);
+        });
+
+        poolWorker.worker.on("exit", (code) => {
+            for (const pending of poolWorker.pending.values()) {
+                pending.reject(new Error(`Inference worker exited with code ${code}`));
+            }
+            poolWorker.pending.clear();
+
+            const index = this.workers.indexOf(poolWorker);
+            if (index === -1 || this.closed) return;
+
+            this.logger.warn(`Inference worker exited with code ${code}, respawning`);
+            this.workers.splice(index, 1);
+            this.replace();
+        });
+
+        return poolWorker;
+    }
+
+    /**
+     * Spawn a replacement worker and reload every live session before using it
+     */
+    private replace(): void {
+        const poolWorker = this.spawn();
+        poolWorker.busy = true;
+        this.workers.push(poolWorker);
+
+        Promise.all(
+            Array.from(this.sessions.keys()).map(key => this.send(poolWorker, this.loadRequest(key)))
+        )
+            .catch((error) => this.logger.error("Failed to reload sessions in inference worker:", error))
+            .finally(() => {
+                poolWorker.busy = false;
+                this.dispatch();
+            });
+    }
+}
+
+/**
+ * Session proxy backed by the inference pool
+ */
+class PooledSession implements ModelSession {
+    public readonly inputNames: readonly string[];
+    public readonly outputNames: readonly string[];
+    public readonly inputMetadata: readonly InferenceSession.ValueMetadata[];
+    public readonly outputMetadata: readonly InferenceSession.ValueMetadata[];
+
+    constructor(
+        private readonly pool: InferencePool,
+        private readonly key: string,
+        signature: SessionSignature
+    ) {
+        this.inputNames = signature.inputNames;
+        this.outputNames = signature.outputNames;
+        this.inputMetadata = signature.inputMetadata;
+        this.outputMetadata = signature.outputMetadata;
+    }
+
+    public async run(feeds: Record<string, Tensor>): Promise<Record<string, Tensor>> {
+        const serialized: Record<string, SerializedTensor> = {};
+        for (const [name, tensor] of Object.entries(feeds)) {
+            serialized[name] = serializeTensor(tensor);
+        }
+
+        const outputs = await this.pool.run(this.key, serialized);
+        const result: Record<string, Tensor> = {};
+
+        for (const [name, tensor] of Object.entries(outputs)) {
+            result[name] = deserializeTensor(tensor);
+        }
+
+        return result;
+    }
+
+    public release(): Promise<void> {
+        return this.pool.releaseSession(this.key);
+    }
+}
@@ -0,0 +1,85 @@
+import { parentPort } from "node:worker_threads";
+import { InferenceSession, type Tensor } from "onnxruntime-node";
+import {
+    deserializeTensor,
+    serializeTensor,
+    type SerializedTensor,
+    type SessionSignature,
+    type WorkerRequest,
+    type WorkerResponse,
+    type WorkerResult,
+} from "./inference.interface.js";
+
+/**
+ * Inference worker
+ * Owns ONNX sessions and runs them off the main event loop
+ */
+const sessions = new Map<string, InferenceSession>();
+
+const getSession = (key: string): InferenceSession => {
+    const session = sessions.get(key);
+    if (!session) {
+        throw new Error(`Session "${key}" is not loaded in this worker`);
+    }
+    return session;
+};
+
+const handle = async (request: WorkerRequest): Promise<WorkerResult | undefined> => {
+    switch (request.type) {
+        case "load": {
+            const session = await InferenceSession.create(request.model, request.options ?? {});
+            sessions.set(request.key, session);
+
+            const signature: SessionSignature = {
+                inputNames: [...session.inputNames],
+                outputNames: [...session.outputNames],
+                inputMetadata: [...session.inputMetadata],
+                outputMetadata: [...session.outputMetadata],
+            };
+            return signature;
+        }
+
+        case "run": {
+            const session = getSession(request.key);
+            const feeds: Record<string, Tensor> = {};
+
+            for (const [name, tensor] of Object.entries(request.feeds)) {
+                feeds[name] = deserializeTensor(tensor);
+            }
+
+            const outputs = await session.run(feeds);
+            const result: Record<string, SerializedTensor> = {};
+
+            for (const [name, tensor] of Object.entries(outputs)) {
+                result[name] = serializeTensor(tensor);
+            }
+            return result;
+        }
+
+        case "release": {
+            const session = sessions.get(request.key);
+            sessions.delete(request.key);
+            await session?.release();
+            return undefined;
+        }
+    }
+};
+
+parentPort?.on("message", async (request: WorkerRequest) => {
+    let response: WorkerResponse;
+
+    try {
+        const result = await handle(request);
+        response = result === undefined
+            ? { id: request.id, ok: true }
+            : { id: request.id, ok: true, result };
+    } catch (error) {
+        response = {
+            id: request.id,
+            ok: false,
+            error: error instanceof Error ? error.message : String(error),
+        };
+    }
+
+    parentPort?.postMessage(response);
+});
@@ -0,0 +1,88 @@
+/**
+ * Micro-batching configuration
+ */
+export interface BatchingConfig {
+    /**
+     * Maximum number of requests coalesced into one batch
+     */
+    maxBatchSize: number;
+    /**
+     * Maximum time the first request of a batch waits for others
+     */
+    maxWaitMs: number;
+}
+
+interface BatchEntry<TItem, TResult> {
+    item: TItem;
+    resolve: (result: TResult) => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * Coalesces requests arriving within a short window into a single batch call
+ */
+export class MicroBatcher<TItem, TResult> {
+    private readonly config: BatchingConfig;
+    private readonly execute: (items: TItem[]) => Promise<TResult[]>;
+    private queue: BatchEntry<TItem, TResult>[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private readonly running = new Set<Promise<void>>();
+
+    constructor(config: BatchingConfig, execute: (items: TItem[]) => Promise<TResult[]>) {
+        if (config.maxBatchSize < 1) {
+            throw new Error("maxBatchSize must be at least 1");
+        }
+
+        this.config = config;
+        this.execute = execute;
+    }
+
+    /**
+     * Add an item to the next batch
+     */
+    public enqueue(item: TItem): Promise<TResult> {
+        return new Promise<TResult>((resolve, reject) => {
+            this.queue.push({ item, resolve, reject });
+
+            if (this.queue.length >= this.config.maxBatchSize) {
+                void this.flush();
+            } else if (!this.timer) {
+                this.timer = setTimeout(() => void this.flush(), this.config.maxWaitMs);
+            }
+        });
+    }
+
+    /**
+     * Run every queued item now and wait for all running batches
+     */
+    public async flush(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        while (this.queue.length > 0) {
+            const batch = this.queue.splice(0, this.config.maxBatchSize);
+            const run = this.runBatch(batch).finally(() => this.running.delete(run));
+            this.running.add(run);
+        }
+
+        await Promise.all(this.running);
+    }
+
+    private async runBatch(batch: BatchEntry<TItem, TResult>[]): Promise<void> {
+        try {
+            const results = await this.execute(batch.map(entry => entry.item));
+
+            if (results.length !== batch.length) {
+                throw new Error(`Batch returned ${results.length} result(s) for ${batch.length} item(s)`);
+            }
+
+            batch.forEach((entry, index) => entry.resolve(results[index]!));
+        } catch (error) {
+            for (const entry of batch) {
+                entry.reject(error);
+            }
+        }
+    }
+}
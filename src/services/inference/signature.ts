@@ -0,0 +1,133 @@
+import type { InferenceSession } from "onnxruntime-node";
+import type { ModelSession } from "./inference.interface.js";
+import type { InputLayout } from "@/services/interfaces/model.interface.js";
+import type { PreprocessConfig } from "@/services/interfaces/preprocessor.interface.js";
+import type { TensorSignature } from "@/services/interfaces/decoder.interface.js";
+
+/**
+ * What the service expects the model input to look like
+ */
+export interface ExpectedInput {
+    layout: InputLayout;
+    preprocessor: Readonly<PreprocessConfig>;
+    /**
+     * Largest batch the service will send
+     */
+    maxBatchSize: number;
+}
+
+const describeShape = (metadata: InferenceSession.ValueMetadata): string => {
+    return metadata.isTensor ? `${metadata.type}[${metadata.shape.join(", ")}]` : "non-tensor";
+};
+
+/**
+ * Check two value metadata entries describe the same tensor
+ * Symbolic dimensions match any other symbolic dimension
+ */
+const sameValue = (a: InferenceSession.ValueMetadata, b: InferenceSession.ValueMetadata): boolean => {
+    if (a.isTensor !== b.isTensor) return false;
+    if (!a.isTensor || !b.isTensor) return true;
+    if (a.type !== b.type || a.shape.length !== b.shape.length) return false;
+
+    return a.shape.every((dim, index) => {
+        const other = b.shape[index];
+        return typeof dim === "number" || typeof other === "number" ? dim === other : true;
+    });
+};
+
+/**
+ * List differences between the inputs/outputs of two sessions
+ */
+export const compareSignatures = (current: ModelSession, candidate: ModelSession): string[] => {
+    const differences: string[] = [];
+
+    const compare = (
+        kind: "input" | "output",
+        before: readonly InferenceSession.ValueMetadata[],
+        after: readonly InferenceSession.ValueMetadata[]
+    ) => {
+        if (before.length !== after.length) {
+            differences.push(`${kind} count changed from ${before.length} to ${after.length}`);
+            return;
+        }
+
+        before.forEach((value, index) => {
+            const next = after[index]!;
+            if (value.name !== next.name) {
+                differences.push(`${kind} ${index} renamed from "${value.name}" to "${next.name}"`);
+            }
+            if (!sameValue(value, next)) {
+                differences.push(`${kind} "${value.name}" changed from ${describeShape(value)} to ${describeShape(next)}`);
+            }
+        });
+    };
+
+    compare("input", current.inputMetadata, candidate.inputMetadata);
+    compare("output", current.outputMetadata, candidate.outputMetadata);
+
+    return differences;
+};
+
+/**
+ * List problems between a session input and the preprocessing config
+ */
+export const validateInputSignature = (session: ModelSession, expected: ExpectedInput): string[] => {
+    const problems: string[] = [];
+    const input = session.inputMetadata[0];
+
+    if (!input) {
+        return ["model has no inputs"];
+    }
+
+    if (!input.isTensor) {
+        return [`input "${input.name}" is not a tensor`];
+    }
+
+    if (input.type !== "float32") {
+        problems.push(`input "${input.name}" has dtype ${input.type}, preprocessor produces float32`);
+    }
+
+    if (input.shape.length !== 4) {
+        problems.push(`input "${input.name}" has rank ${input.shape.length}, expected 4 (${expected.layout})`);
+        return problems;
+    }
+
+    const { width, height, channels } = expected.preprocessor;
+    const [batch, ...rest] = input.shape;
+    const dims = expected.layout === "NCHW"
+        ? { C: rest[0], H: rest[1], W: rest[2] }
+        : { H: rest[0], W: rest[1], C: rest[2] };
+    const wanted = { H: height, W: width, C: channels };
+
+    for (const axis of ["H", "W", "C"] as const) {
+        const actual = dims[axis];
+        if (typeof actual === "number" && actual !== wanted[axis]) {
+            problems.push(
+                `input "${input.name}" is ${describeShape(input)}, expected ${axis}=${wanted[axis]} for ${expected.layout} ` +
+                `(preprocessor outputs ${width}x${height}x${channels})`
+            );
+        }
+    }
+
+    // Single predictions run as [1, ...] and batches as [n, ...] for any n up to maxBatchSize,
+    // so a fixed batch dimension only works when it is 1 and batching is off
+    if (typeof batch === "number" && (batch !== 1 || expected.maxBatchSize !== 1)) {
+        problems.push(
+            expected.maxBatchSize === 1
+                ? `input "${input.name}" has a fixed batch size of ${batch}, single predictions need 1 or a dynamic batch dimension`
+                : `input "${input.name}" has a fixed batch size of ${batch}, batching up to ${expected.maxBatchSize} needs a dynamic batch dimension`
+        );
+    }
+
+    return problems;
+};
+
+/**
+ * Signature of the first session output, for decoder validation
+ */
+export const getOutputSignature = (session: ModelSession): TensorSignature | null => {
+    const output = session.outputMetadata[0];
+    if (!output?.isTensor) return null;
+
+    return { name: output.name, type: output.type, shape: output.shape };
+};
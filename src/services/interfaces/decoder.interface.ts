@@ -16,6 +16,15 @@ export interface DecoderConfig {
     [key: string]: any; // Allow decoder-specific config
 }
 
+/**
+ * Declared type and shape of a model output, symbolic dimensions are strings
+ */
+export interface TensorSignature {
+    name: string;
+    type: string;
+    shape: readonly (number | string)[];
+}
+
 /**
  * Base interface for all decoders
  */
@@ -34,6 +43,11 @@ export interface IDecoder<TInput = Float32Array, TOutput = string, TConfig exten
      * Get average confidence of results
      */
     getAverageConfidence(results: DecodedResult<TOutput>[]): number;
+
+    /**
+     * List problems with a model output this decoder would receive
+     */
+    validateOutput?(output: TensorSignature): string[];
 }
 
 /**
@@ -48,6 +62,12 @@ export abstract class BaseDecoder<TInput = Float32Array, TOutput = string, TConf
 
     abstract decode(input: TInput, config?: TConfig): DecodedResult<TOutput>[];
 
+    public validateOutput(output: TensorSignature): string[] {
+        return output.type === "float32"
+            ? []
+            : [`output "${output.name}" has dtype ${output.type}, decoder expects float32`];
+    }
+
     public toString(results: DecodedResult<TOutput>[]): string {
         return results.map(r => String(r.value)).join("");
     }
@@ -1,17 +1,101 @@
-import type { InferenceSession } from "onnxruntime-node";
-import type { IPreprocessor, PreprocessConfig } from "./preprocessor.interface.js";
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { InferenceSession, Tensor } from "onnxruntime-node";
+import type { IPreprocessor, PreprocessConfig, PreprocessResult } from "./preprocessor.interface.js";
 import type { IDecoder, DecoderConfig, DecodedResult } from "./decoder.interface.js";
 import type { LoggerService } from "@/services/logger.service.js";
+import { toSessionOptions, type ModelSession, type SessionConfig, type SessionFactory } from "@/services/inference/inference.interface.js";
+import { MicroBatcher, type BatchingConfig } from "@/services/inference/micro-batcher.js";
+import { compareSignatures, getOutputSignature, validateInputSignature } from "@/services/inference/signature.js";
+import { ResultCache } from "@/services/cache/result.cache.js";
+import { InvalidInputError } from "@/errors/app.errors.js";
+
+/**
+ * Default session factory, runs inference on the calling thread
+ */
+export const createLocalSession: SessionFactory = (model, options) => {
+    return InferenceSession.create(model, options ?? {});
+};
+
+/**
+ * Memory layout of the model input tensor
+ */
+export type InputLayout = "NHWC" | "NCHW";
 
 /**
  * Base model configuration
  */
 export interface ModelConfig {
+    id: string;
+    version?: string;
     modelPath: string;
+    layout: InputLayout;
+    /**
+     * Coalesce concurrent requests into batched runs
+     */
+    batching?: BatchingConfig;
+    session?: SessionConfig;
+    /**
+     * Set to false to bypass the shared result cache
+     */
+    cache?: boolean;
     preprocessor?: PreprocessConfig;
     decoder?: DecoderConfig;
 }
 
+/**
+ * Output of a single item, split from a (possibly batched) run
+ */
+export interface ModelOutput {
+    data: Float32Array;
+    /**
+     * Output tensor shape with a batch dimension of 1
+     */
+    dims: readonly number[];
+    /**
+     * Version of the session that computed this output
+     */
+    model: ModelVersion;
+}
+
+/**
+ * Optional preprocessor/decoder overrides for a model service
+ */
+export interface ModelComponents<TOutput = string> {
+    preprocessor?: IPreprocessor;
+    decoder?: IDecoder<Float32Array, TOutput>;
+    sessionFactory?: SessionFactory;
+    cache?: ResultCache;
+    logger: LoggerService;
+}
+
+/**
+ * Identifies the model file a session was loaded from
+ */
+export interface ModelVersion {
+    id: string;
+    version: string;
+    /**
+     * Short SHA-256 of the model file
+     */
+    hash: string;
+    loadedAt: Date;
+}
+
+/**
+ * A session together with the version of the file it was created from
+ * Runs take this snapshot once, so a concurrent reload cannot mix the two
+ */
+export interface LoadedModel {
+    session: ModelSession;
+    version: ModelVersion;
+    /**
+     * Runs currently using the session, it is only released once they finish
+     */
+    runs: number;
+    onIdle: (() => void)[];
+}
+
 /**
  * Model prediction result
  */
@@ -19,6 +103,33 @@ export interface PredictionResult<T = string> {
     results: DecodedResult<T>[];
     raw?: Float32Array;
     inferenceTime?: number;
+    model?: ModelVersion;
+    /**
+     * Whether the result was served from the result cache
+     */
+    cached?: boolean;
+    /**
+     * Images rendered when predicting in debug mode
+     */
+    debug?: DebugImage[];
+}
+
+/**
+ * Named PNG rendered for debugging a prediction
+ */
+export interface DebugImage {
+    name: string;
+    image: Buffer;
+}
+
+/**
+ * Per-call prediction options
+ */
+export interface PredictOptions {
+    /**
+     * Render the preprocessed input (and model-specific overlays) into `debug`
+     */
+    debug?: boolean;
 }
 
 /**
@@ -33,7 +144,7 @@ export interface IModelService<TInput = Buffer, TOutput = string, TConfig extend
     /**
      * Run inference on input data
      */
-    predict(input: TInput): Promise<PredictionResult<TOutput>>;
+    predict(input: TInput, options?: PredictOptions): Promise<PredictionResult<TOutput>>;
 
     /**
      * Predict and return simple string output
@@ -60,38 +171,351 @@ export interface IModelService<TInput = Buffer, TOutput = string, TConfig extend
  * Abstract base class for ONNX-based model services
  */
 export abstract class BaseONNXModelService<TInput = Buffer, TOutput = string, TConfig extends ModelConfig = ModelConfig> implements IModelService<TInput, TOutput, TConfig> {
-    protected session: InferenceSession | null = null;
+    protected active: LoadedModel | null = null;
+    protected previous: LoadedModel | null = null;
     protected initPromise: Promise<void> | null = null;
+    private swapLock: Promise<unknown> = Promise.resolve();
     protected readonly config: TConfig;
     protected readonly logger: LoggerService;
     public readonly preprocessor: IPreprocessor;
     public readonly decoder: IDecoder<Float32Array, TOutput>;
+    protected readonly sessionFactory: SessionFactory;
+    private readonly batcher: MicroBatcher<PreprocessResult, ModelOutput> | null = null;
+    private readonly cache: ResultCache | null;
 
     constructor(
         config: TConfig,
         preprocessor: IPreprocessor,
         decoder: IDecoder<Float32Array, TOutput>,
-        logger: LoggerService
+        logger: LoggerService,
+        sessionFactory: SessionFactory = createLocalSession,
+        cache?: ResultCache
     ) {
         this.config = config;
         this.preprocessor = preprocessor;
         this.decoder = decoder;
         this.logger = logger;
+        this.sessionFactory = sessionFactory;
+        this.cache = config.cache === false ? null : cache ?? null;
+
+        if (config.batching && config.batching.maxBatchSize > 1) {
+            this.batcher = new MicroBatcher(config.batching, (items) => this.runBatch(items));
+        }
     }
 
     public async initialize(): Promise<void> {
-        if (this.session) return;
+        if (this.active) return;
 
         if (!this.initPromise) {
-            this.initPromise = this.loadModel();
+            // Allow a later call to retry after a failed load
+            this.initPromise = this.loadModel().catch((error) => {
+                this.initPromise = null;
+                throw error;
+            });
         }
 
         return this.initPromise;
     }
 
-    protected abstract loadModel(): Promise<void>;
+    /**
+     * Load the model file and make it the active version
+     */
+    protected async loadModel(): Promise<void> {
+        const { file, version } = await this.readModelFile();
+        const session = await this.createSession(file);
+        this.active = { session, version, runs: 0, onIdle: [] };
+    }
+
+    /**
+     * Fail fast when the model inputs/outputs disagree with the preprocessor and decoder
+     */
+    protected validateSignature(session: ModelSession): void {
+        const problems = validateInputSignature(session, {
+            layout: this.config.layout,
+            preprocessor: this.preprocessor.getConfig(),
+            maxBatchSize: this.config.batching?.maxBatchSize ?? 1,
+        });
+
+        const output = getOutputSignature(session);
+        if (!output) {
+            problems.push("model has no tensor output");
+        } else {
+            problems.push(...(this.decoder.validateOutput?.(output) ?? []));
+        }
+
+        if (problems.length > 0) {
+            throw new Error(
+                `Model ${this.config.id} (${this.config.modelPath}) does not match its configuration:\n  - ${problems.join("\n  - ")}`
+            );
+        }
+    }
+
+    /**
+     * Load the model file again and swap it in if its signature is unchanged
+     * The replaced session is kept for rollback
+     */
+    public reload(): Promise<ModelVersion> {
+        return this.withSwapLock(async () => {
+            await this.initialize();
+
+            const { file, version } = await this.readModelFile();
+            const session = await this.createSession(file);
+            const differences = compareSignatures(this.active!.session, session);
+
+            if (differences.length > 0) {
+                await session.release();
+                throw new Error(`Model ${this.config.id} signature mismatch: ${differences.join("; ")}`);
+            }
+
+            const replaced = this.previous;
+            this.previous = this.active!;
+            this.active = { session, version, runs: 0, onIdle: [] };
+
+            // The version before the previous one is no longer reachable, free it once its runs finish
+            if (replaced) {
+                await this.retire(replaced).catch(error => {
+                    this.logger.warn(`Failed to release replaced session of model ${this.config.id}:`, error);
+                });
+            }
+
+            this.logger.info(`Model ${this.config.id} reloaded: ${this.previous.version.hash} -> ${version.hash}`);
+            return version;
+        });
+    }
+
+    /**
+     * Swap the previous session back in, the current one becomes the previous
+     */
+    public rollback(): Promise<ModelVersion> {
+        return this.withSwapLock(async () => {
+            if (!this.previous || !this.active) {
+                throw new InvalidInputError(
+                    `Model ${this.config.id} has no previous version to roll back to`,
+                    "There is no previous version to roll back to."
+                );
+            }
+
+            const current = this.active;
+            this.active = this.previous;
+            this.previous = current;
+
+            this.logger.info(`Model ${this.config.id} rolled back: ${current.version.hash} -> ${this.active.version.hash}`);
+            return this.active.version;
+        });
+    }
+
+    /**
+     * Active and previous model versions
+     */
+    public getVersions(): { active: ModelVersion | null; previous: ModelVersion | null } {
+        return {
+            active: this.active?.version ?? null,
+            previous: this.previous?.version ?? null,
+        };
+    }
+
+    /**
+     * Release a session once every run still using it has finished
+     */
+    private async retire(model: LoadedModel): Promise<void> {
+        if (model.runs > 0) {
+            await new Promise<void>(resolve => model.onIdle.push(resolve));
+        }
+        await model.session.release();
+    }
+
+    private withSwapLock<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.swapLock.then(task);
+        this.swapLock = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Read the model file once, the version hash and the session both come from these bytes
+     * so a file replaced mid-load cannot be reported under another file's hash
+     */
+    protected async readModelFile(): Promise<{ file: Uint8Array; version: ModelVersion }> {
+        const file = await readFile(this.config.modelPath);
+
+        return {
+            file,
+            version: {
+                id: this.config.id,
+                version: this.config.version ?? "unversioned",
+                hash: createHash("sha256").update(file).digest("hex").slice(0, 12),
+                loadedAt: new Date(),
+            },
+        };
+    }
+
+    /**
+     * Create a session from model file contents
+     * The session is validated against the config, then warmed up if configured
+     */
+    protected async createSession(file: Uint8Array): Promise<ModelSession> {
+        const loadStart = performance.now();
+        const session = await this.sessionFactory(file, toSessionOptions(this.config.session));
+        this.logger.info(`Loaded model ${this.config.id} in ${(performance.now() - loadStart).toFixed(2)}ms`);
+
+        try {
+            this.validateSignature(session);
+        } catch (error) {
+            await session.release();
+            throw error;
+        }
 
-    public abstract predict(input: TInput): Promise<PredictionResult<TOutput>>;
+        if (this.config.session?.warmup) {
+            const warmupStart = performance.now();
+            await this.warmup(session);
+            this.logger.info(`Warmed up model ${this.config.id} in ${(performance.now() - warmupStart).toFixed(2)}ms`);
+        }
+
+        return session;
+    }
+
+    /**
+     * Run a zero-filled input through the session
+     */
+    protected async warmup(session: ModelSession): Promise<void> {
+        const { width, height, channels } = this.preprocessor.getConfig();
+        const inputTensor = this.createInputTensor([{
+            data: new Float32Array(width * height * channels),
+            width,
+            height,
+            channels,
+        }]);
+
+        await session.run({ [session.inputNames[0]!]: inputTensor });
+    }
+
+    public abstract predict(input: TInput, options?: PredictOptions): Promise<PredictionResult<TOutput>>;
+
+    /**
+     * Serve a prediction from the result cache, running it on a miss
+     * Debug predictions and non-buffer inputs always run
+     */
+    protected async withCache(
+        input: TInput,
+        options: PredictOptions,
+        run: () => Promise<PredictionResult<TOutput>>
+    ): Promise<PredictionResult<TOutput>> {
+        if (!this.cache || options.debug || !Buffer.isBuffer(input)) {
+            return run();
+        }
+
+        await this.initialize();
+
+        const hit = await this.cache.get<TOutput>(this.config.id, ResultCache.key(input, this.active!.version));
+        if (hit) {
+            return { ...hit, cached: true };
+        }
+
+        const result = await run();
+
+        // result.model comes from the session snapshot the run used (see runBatch), not the version
+        // looked up above, so a reload landing mid-run cannot file an old result under the new hash
+        if (result.model) {
+            await this.cache.set(ResultCache.key(input, result.model), result);
+        }
+
+        return result;
+    }
+
+    /**
+     * Render what the model saw for a debug prediction
+     */
+    protected async renderDebug(
+        _input: TInput,
+        preprocessed: PreprocessResult,
+        _results: DecodedResult<TOutput>[]
+    ): Promise<DebugImage[]> {
+        if (!this.preprocessor.render) return [];
+
+        return [{ name: `${this.config.id}-input.png`, image: await this.preprocessor.render(preprocessed) }];
+    }
+
+    /**
+     * Run the model on one preprocessed input, batched with concurrent calls when enabled
+     */
+    protected runInference(preprocessed: PreprocessResult): Promise<ModelOutput> {
+        if (this.batcher) {
+            return this.batcher.enqueue(preprocessed);
+        }
+
+        return this.runBatch([preprocessed]).then(outputs => outputs[0]!);
+    }
+
+    /**
+     * Run a single session call over several inputs and split the first output per item
+     * The active model is read once, outputs report the version that computed them even if a reload lands mid-run
+     */
+    protected async runBatch(items: PreprocessResult[]): Promise<ModelOutput[]> {
+        const model = this.active;
+        if (!model) {
+            throw new Error("Session not initialized");
+        }
+
+        const { session } = model;
+        const inputTensor = this.createInputTensor(items);
+
+        model.runs++;
+        let outputs: Record<string, Tensor>;
+        try {
+            outputs = await session.run({
+                [session.inputNames[0]!]: inputTensor,
+            });
+        } finally {
+            if (--model.runs === 0) {
+                model.onIdle.splice(0).forEach(resolve => resolve());
+            }
+        }
+
+        const outputTensor = outputs[session.outputNames[0]!];
+        if (!outputTensor) {
+            throw new Error("No output from model");
+        }
+
+        const data = outputTensor.data as Float32Array;
+        const itemSize = data.length / items.length;
+        const dims = [1, ...outputTensor.dims.slice(1)];
+
+        if (items.length > 1) {
+            this.logger.debug(`Ran batch of ${items.length} for model ${this.config.id}`);
+        }
+
+        return items.map((_, index) => ({
+            data: data.slice(index * itemSize, (index + 1) * itemSize),
+            dims,
+            model: model.version,
+        }));
+    }
+
+    /**
+     * Build a batched input tensor in the configured layout
+     */
+    protected createInputTensor(items: PreprocessResult[]): Tensor {
+        const first = items[0];
+        if (!first) {
+            throw new Error("Cannot create a tensor from an empty batch");
+        }
+
+        const { width, height, channels } = first;
+        const itemSize = first.data.length;
+        const data = new Float32Array(itemSize * items.length);
+
+        items.forEach((item, index) => {
+            if (item.data.length !== itemSize) {
+                throw new Error(`Batch item ${index} has ${item.data.length} values, expected ${itemSize}`);
+            }
+            data.set(item.data, index * itemSize);
+        });
+
+        const dims = this.config.layout === "NCHW"
+            ? [items.length, channels, height, width]
+            : [items.length, height, width, channels];
+
+        return new Tensor("float32", data, dims);
+    }
 
     public async predictAsString(input: TInput): Promise<string> {
         const result = await this.predict(input);
@@ -99,7 +523,7 @@ export abstract class BaseONNXModelService<TInput = Buffer, TOutput = string, TC
     }
 
     public isInitialized(): boolean {
-        return this.session !== null;
+        return this.active !== null;
     }
 
     public getConfig(): Readonly<TConfig> {
@@ -107,10 +531,12 @@ export abstract class BaseONNXModelService<TInput = Buffer, TOutput = string, TC
     }
 
     public async dispose(): Promise<void> {
-        if (this.session) {
-            await this.session.release();
-            this.session = null;
-        }
+        await this.batcher?.flush();
+
+        const loaded = [this.active, this.previous].filter(model => model !== null);
+        this.active = null;
+        this.previous = null;
+        await Promise.all(loaded.map(model => this.retire(model)));
         this.initPromise = null;
     }
 }
@@ -1,4 +1,5 @@
 import type { LoggerService } from "@/services/logger.service.js";
+import { renderTensor } from "@/services/debug/debug.renderer.js";
 
 /**
  * Generic configuration for image preprocessing
@@ -10,6 +11,19 @@ export interface PreprocessConfig {
     [key: string]: any; // Allow model-specific config
 }
 
+/**
+ * Geometric mapping from original image to model input coordinates
+ * `input = original * scale + pad`
+ */
+export interface ImageTransform {
+    scaleX: number;
+    scaleY: number;
+    padX: number;
+    padY: number;
+    originalWidth: number;
+    originalHeight: number;
+}
+
 /**
  * Result of preprocessing operation
  */
@@ -39,6 +53,11 @@ export interface IPreprocessor<TConfig extends PreprocessConfig = PreprocessConf
      * Validate input before processing
      */
     validate?(input: Buffer): Promise<boolean> | boolean;
+
+    /**
+     * Render a preprocessing result back to a PNG for debugging
+     */
+    render?(result: PreprocessResult<TResult>): Promise<Buffer>;
 }
 
 /**
@@ -62,4 +81,11 @@ export abstract class BasePreprocessor<TConfig extends PreprocessConfig = Prepro
     public validate(input: Buffer): boolean {
         return Buffer.isBuffer(input) && input.length > 0;
     }
+
+    public render(result: PreprocessResult<TResult>): Promise<Buffer> {
+        if (!(result.data instanceof Float32Array)) {
+            throw new Error("Only Float32Array results can be rendered");
+        }
+        return renderTensor(result as PreprocessResult);
+    }
 }
@@ -1,24 +1,163 @@
 import util from "node:util";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
 import chalk from "chalk";
+import { Redactor } from "@/services/redaction/redactor.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export type LogFormat = "pretty" | "json";
+
+/**
+ * Fields attached to every line written by a logger, e.g. command, interactionId or model
+ */
+export type LogContext = Record<string, unknown>;
+
+export interface LoggerConfig {
+    /** Lines below this level are dropped */
+    level: LogLevel;
+    /** Colored text for development, one JSON object per line for production */
+    format: LogFormat;
+    /** Masks secrets and user URLs in every line */
+    redactor: Redactor;
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+    silent: Infinity,
+};
+
+const LEVEL_LABELS: Record<Exclude<LogLevel, "silent">, string> = {
+    debug: chalk.magentaBright("[DEBUG]"),
+    info: chalk.blue("[INFO]"),
+    warn: chalk.yellow("[WARN]"),
+    error: chalk.redBright("[ERROR]"),
+};
+
+/**
+ * Context of the request being handled, shared by every logger in the same async chain
+ */
+const requestContext = new AsyncLocalStorage<LogContext>();
+
+const isLogLevel = (value: string): value is LogLevel => Object.hasOwn(LOG_LEVELS, value);
+
+const serializeError = (error: Error): Record<string, unknown> => ({
+    name: error.name,
+    message: error.message,
+    ...("code" in error && { code: error.code }),
+    stack: error.stack,
+    ...(error.cause !== undefined && {
+        cause: error.cause instanceof Error ? serializeError(error.cause) : error.cause,
+    }),
+});
 
 export class LoggerService {
-    log(...args: any[]): void {
-        console.log(chalk.bgYellow(new Date().toISOString()), ...args);
+    private readonly config: LoggerConfig;
+    private readonly context: LogContext;
+
+    constructor(config: Partial<LoggerConfig> = {}, context: LogContext = {}) {
+        this.config = { level: "debug", format: "pretty", redactor: new Redactor(), ...config };
+        this.context = context;
+    }
+
+    /**
+     * Build a logger from LOG_LEVEL and LOG_FORMAT, defaulting to info level JSON in production
+     */
+    static fromEnv(env: NodeJS.ProcessEnv = process.env, redactor: Redactor = Redactor.fromEnv(env)): LoggerService {
+        const production = env.NODE_ENV === "production";
+        const level = (env.LOG_LEVEL ?? (production ? "info" : "debug")).toLowerCase();
+        const format = (env.LOG_FORMAT ?? (production ? "json" : "pretty")).toLowerCase();
+
+        if (!isLogLevel(level)) {
+            throw new Error(`Invalid LOG_LEVEL "${level}", expected one of ${Object.keys(LOG_LEVELS).join(", ")}`);
+        }
+        if (format !== "pretty" && format !== "json") {
+            throw new Error(`Invalid LOG_FORMAT "${format}", expected pretty or json`);
+        }
+
+        return new LoggerService({ level, format, redactor });
+    }
+
+    /**
+     * Run fn with extra request context, e.g. a correlation id, visible to every logger it reaches
+     */
+    static runWithContext<T>(context: LogContext, fn: () => T): T {
+        return requestContext.run({ ...requestContext.getStore(), ...context }, fn);
+    }
+
+    /**
+     * Attach request context to the rest of the current async chain
+     * Used from event listeners, where the handled work cannot be wrapped in a callback
+     */
+    static enterContext(context: LogContext): void {
+        requestContext.enterWith({ ...requestContext.getStore(), ...context });
+    }
+
+    static createCorrelationId(): string {
+        return randomUUID();
+    }
+
+    /**
+     * Create a logger that adds context to every line on top of this logger's own
+     */
+    child(context: LogContext): LoggerService {
+        return new LoggerService(this.config, { ...this.context, ...context });
+    }
+
+    isLevelEnabled(level: LogLevel): boolean {
+        return LOG_LEVELS[level] >= LOG_LEVELS[this.config.level];
     }
 
     info(...args: any[]): void {
-        this.log(chalk.blue("[INFO]"), ...args);
+        this.write("info", args);
     }
 
     warn(...args: any[]): void {
-        this.log(chalk.yellow("[WARN]"), ...args);
+        this.write("warn", args);
     }
 
     error(...args: any[]): void {
-        this.log(chalk.redBright("[ERROR]"), chalk.redBright(util.format(...args)));
+        this.write("error", args);
     }
 
     debug(...args: any[]): void {
-        this.log(chalk.magentaBright("[DEBUG]"), chalk.gray(util.format(...args)));
+        this.write("debug", args);
+    }
+
+    private write(level: Exclude<LogLevel, "silent">, args: any[]): void {
+        if (!this.isLevelEnabled(level)) return;
+
+        const { redactor } = this.config;
+        const context = redactor.redactValue({ ...requestContext.getStore(), ...this.context });
+
+        if (this.config.format === "json") {
+            const error = args.find((arg): arg is Error => arg instanceof Error);
+            const rest = args.filter(arg => arg !== error);
+            // Context goes first so a field named time, level, msg or err cannot overwrite the line's own
+            const line = {
+                ...context,
+                time: new Date().toISOString(),
+                level,
+                msg: redactor.redact(rest.length > 0 ? util.format(...rest) : error?.message ?? ""),
+                ...(error && { err: redactor.redactValue(serializeError(error)) }),
+            };
+            (level === "error" ? process.stderr : process.stdout).write(JSON.stringify(line) + "\n");
+            return;
+        }
+
+        const fields = Object.entries(context).map(([key, value]) => `${key}=${typeof value === "string" ? value : util.inspect(value)}`);
+        const prefix = [chalk.bgYellow(new Date().toISOString()), LEVEL_LABELS[level], ...(fields.length > 0 ? [chalk.gray(fields.join(" "))] : [])];
+        const message = redactor.redact(util.format(...args));
+
+        if (level === "error") {
+            console.log(...prefix, chalk.redBright(message));
+        } else if (level === "debug") {
+            console.log(...prefix, chalk.gray(message));
+        } else {
+            console.log(...prefix, message);
+        }
     }
-}
\ No newline at end of file
+}
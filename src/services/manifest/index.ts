@@ -0,0 +1,5 @@
+export { loadManifest, loadManifests, MANIFEST_SUFFIX } from "./manifest.loader.js";
+export { validateManifest } from "./manifest.validator.js";
+export { assertManifestSupported, createModelService, registerManifestModels } from "./model.factory.js";
+export type { ModelServiceOptions } from "./model.factory.js";
+export type { ModelManifest, ManifestInput, ManifestComponent } from "./manifest.interface.js";
@@ -0,0 +1,56 @@
+import type { InputLayout } from "@/services/interfaces/model.interface.js";
+import type { BatchingConfig } from "@/services/inference/micro-batcher.js";
+import type { SessionConfig } from "@/services/inference/inference.interface.js";
+
+/**
+ * Model input description
+ */
+export interface ManifestInput {
+    layout: InputLayout;
+    width: number;
+    height: number;
+    channels: 1 | 3 | 4;
+}
+
+/**
+ * Preprocessor or decoder declaration
+ */
+export interface ManifestComponent {
+    type: string;
+    params: Record<string, any>;
+}
+
+/**
+ * Declarative description of a model shipped under src/models/
+ */
+export interface ModelManifest {
+    /**
+     * Unique model id used by the registry
+     */
+    id: string;
+    /**
+     * Service implementation to use (e.g. "huntbot", "yolo", "ctc")
+     */
+    task: string;
+    version: string;
+    /**
+     * Absolute path to the ONNX file, resolved relative to the manifest
+     */
+    modelPath: string;
+    input: ManifestInput;
+    preprocessor: ManifestComponent;
+    decoder: ManifestComponent;
+    labels: string[];
+    /**
+     * Optional micro-batching, requires a dynamic batch dimension
+     */
+    batching?: BatchingConfig;
+    /**
+     * ONNX Runtime session options and warm-up
+     */
+    session?: SessionConfig;
+    /**
+     * Set to false to opt out of the result cache
+     */
+    cache?: boolean;
+}
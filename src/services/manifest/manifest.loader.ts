@@ -0,0 +1,54 @@
+import { access, readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import type { ModelManifest } from "./manifest.interface.js";
+import { validateManifest } from "./manifest.validator.js";
+
+export const MANIFEST_SUFFIX = ".manifest.json";
+
+/**
+ * Read and validate a single manifest file
+ */
+export const loadManifest = async (manifestPath: string): Promise<ModelManifest> => {
+    let raw: unknown;
+
+    try {
+        raw = JSON.parse(await readFile(manifestPath, "utf8"));
+    } catch (error) {
+        throw new Error(
+            `Failed to read model manifest ${manifestPath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+
+    const manifest = validateManifest(raw, manifestPath);
+
+    try {
+        await access(manifest.modelPath);
+    } catch {
+        throw new Error(`Model file for "${manifest.id}" not found: ${manifest.modelPath}`);
+    }
+
+    return manifest;
+};
+
+/**
+ * Load every `*.manifest.json` file in a directory
+ */
+export const loadManifests = async (directory: string): Promise<ModelManifest[]> => {
+    const files = (await readdir(directory))
+        .filter(file => file.endsWith(MANIFEST_SUFFIX))
+        .sort();
+
+    const manifests = await Promise.all(
+        files.map(file => loadManifest(path.join(directory, file)))
+    );
+
+    const seen = new Set<string>();
+    for (const manifest of manifests) {
+        if (seen.has(manifest.id)) {
+            throw new Error(`Duplicate model id "${manifest.id}" in ${directory}`);
+        }
+        seen.add(manifest.id);
+    }
+
+    return manifests;
+};
@@ -0,0 +1,195 @@
+import path from "node:path";
+import type { InputLayout } from "@/services/interfaces/model.interface.js";
+import type { SessionConfig } from "@/services/inference/inference.interface.js";
+import type { ManifestComponent, ModelManifest } from "./manifest.interface.js";
+
+const LAYOUTS: readonly InputLayout[] = ["NHWC", "NCHW"];
+const CHANNELS = [1, 3, 4] as const;
+const OPTIMIZATION_LEVELS = ["disabled", "basic", "extended", "layout", "all"] as const;
+const EXECUTION_MODES = ["sequential", "parallel"] as const;
+
+const isObject = (value: unknown): value is Record<string, any> => {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+    return typeof value === "string" && value.trim().length > 0;
+};
+
+const isPositiveInteger = (value: unknown): value is number => {
+    return typeof value === "number" && Number.isInteger(value) && value > 0;
+};
+
+/**
+ * Validate a component (preprocessor/decoder) declaration
+ */
+const validateComponent = (value: unknown, field: string, errors: string[]): ManifestComponent => {
+    if (!isObject(value)) {
+        errors.push(`"${field}" must be an object`);
+        return { type: "", params: {} };
+    }
+
+    if (!isNonEmptyString(value.type)) {
+        errors.push(`"${field}.type" must be a non-empty string`);
+    }
+
+    if (value.params !== undefined && !isObject(value.params)) {
+        errors.push(`"${field}.params" must be an object`);
+    }
+
+    return {
+        type: String(value.type ?? ""),
+        params: isObject(value.params) ? value.params : {},
+    };
+};
+
+const THREAD_FIELDS = ["intraOpNumThreads", "interOpNumThreads"] as const;
+const BOOLEAN_FIELDS = ["enableCpuMemArena", "enableMemPattern", "warmup"] as const;
+const SESSION_FIELDS: readonly string[] = [...THREAD_FIELDS, ...BOOLEAN_FIELDS, "graphOptimizationLevel", "executionMode"];
+
+/**
+ * Validate ONNX Runtime session settings
+ * Only known fields are copied, anything else would reach ONNX Runtime unchecked
+ */
+const validateSession = (value: unknown, errors: string[]): SessionConfig | undefined => {
+    if (value === undefined) return undefined;
+
+    if (!isObject(value)) {
+        errors.push(`"session" must be an object`);
+        return undefined;
+    }
+
+    const session: SessionConfig = {};
+
+    for (const field of Object.keys(value)) {
+        if (!SESSION_FIELDS.includes(field)) {
+            errors.push(`"session.${field}" is not a known session setting (expected ${SESSION_FIELDS.join(", ")})`);
+        }
+    }
+
+    for (const field of THREAD_FIELDS) {
+        if (value[field] === undefined) continue;
+
+        if (Number.isInteger(value[field]) && value[field] >= 0) {
+            session[field] = value[field];
+        } else {
+            errors.push(`"session.${field}" must be a non-negative integer`);
+        }
+    }
+
+    for (const field of BOOLEAN_FIELDS) {
+        if (value[field] === undefined) continue;
+
+        if (typeof value[field] === "boolean") {
+            session[field] = value[field];
+        } else {
+            errors.push(`"session.${field}" must be a boolean`);
+        }
+    }
+
+    if (value.graphOptimizationLevel !== undefined) {
+        if (OPTIMIZATION_LEVELS.includes(value.graphOptimizationLevel)) {
+            session.graphOptimizationLevel = value.graphOptimizationLevel;
+        } else {
+            errors.push(`"session.graphOptimizationLevel" must be one of ${OPTIMIZATION_LEVELS.join(", ")}`);
+        }
+    }
+
+    if (value.executionMode !== undefined) {
+        if (EXECUTION_MODES.includes(value.executionMode)) {
+            session.executionMode = value.executionMode;
+        } else {
+            errors.push(`"session.executionMode" must be one of ${EXECUTION_MODES.join(", ")}`);
+        }
+    }
+
+    return session;
+};
+
+/**
+ * Validate raw manifest JSON and resolve the model path
+ *
+ * @param raw - Parsed manifest content
+ * @param manifestPath - Path of the manifest file, used for errors and relative paths
+ */
+export const validateManifest = (raw: unknown, manifestPath: string): ModelManifest => {
+    const errors: string[] = [];
+
+    if (!isObject(raw)) {
+        throw new Error(`Invalid model manifest ${manifestPath}: root must be an object`);
+    }
+
+    for (const field of ["id", "task", "version", "model"]) {
+        if (!isNonEmptyString(raw[field])) {
+            errors.push(`"${field}" must be a non-empty string`);
+        }
+    }
+
+    const input = isObject(raw.input) ? raw.input : {};
+    if (!isObject(raw.input)) {
+        errors.push(`"input" must be an object`);
+    }
+
+    if (!LAYOUTS.includes(input.layout)) {
+        errors.push(`"input.layout" must be one of ${LAYOUTS.join(", ")}`);
+    }
+
+    for (const field of ["width", "height"]) {
+        if (!isPositiveInteger(input[field])) {
+            errors.push(`"input.${field}" must be a positive integer`);
+        }
+    }
+
+    if (!CHANNELS.includes(input.channels)) {
+        errors.push(`"input.channels" must be one of ${CHANNELS.join(", ")}`);
+    }
+
+    const preprocessor = validateComponent(raw.preprocessor, "preprocessor", errors);
+    const decoder = validateComponent(raw.decoder, "decoder", errors);
+
+    const labels = raw.labels ?? [];
+    if (!Array.isArray(labels) || !labels.every(label => typeof label === "string")) {
+        errors.push(`"labels" must be an array of strings`);
+    }
+
+    const batching = raw.batching;
+    if (batching !== undefined) {
+        if (!isObject(batching) || !isPositiveInteger(batching.maxBatchSize)) {
+            errors.push(`"batching.maxBatchSize" must be a positive integer`);
+        }
+        if (!isObject(batching) || typeof batching.maxWaitMs !== "number" || batching.maxWaitMs < 0) {
+            errors.push(`"batching.maxWaitMs" must be a non-negative number`);
+        }
+    }
+
+    const session = validateSession(raw.session, errors);
+
+    if (raw.cache !== undefined && typeof raw.cache !== "boolean") {
+        errors.push(`"cache" must be a boolean`);
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid model manifest ${manifestPath}:\n  - ${errors.join("\n  - ")}`);
+    }
+
+    return {
+        id: raw.id,
+        task: raw.task,
+        version: raw.version,
+        modelPath: path.resolve(path.dirname(manifestPath), raw.model),
+        input: {
+            layout: input.layout,
+            width: input.width,
+            height: input.height,
+            channels: input.channels,
+        },
+        preprocessor,
+        decoder,
+        labels,
+        ...(batching !== undefined && {
+            batching: { maxBatchSize: batching.maxBatchSize, maxWaitMs: batching.maxWaitMs },
+        }),
+        ...(session && { session }),
+        ...(raw.cache !== undefined && { cache: raw.cache }),
+    };
+};
@@ -0,0 +1,159 @@
+import type { ModelComponents, ModelConfig } from "@/services/interfaces/model.interface.js";
+import type { SessionFactory } from "@/services/inference/index.js";
+import type { ResultCache } from "@/services/cache/index.js";
+import type { LoggerService } from "@/services/logger.service.js";
+import type { IDecoder } from "@/services/interfaces/decoder.interface.js";
+import type { IPreprocessor, PreprocessConfig } from "@/services/interfaces/preprocessor.interface.js";
+import {
+    HuntbotDecoder,
+    HuntbotModelService,
+    HuntbotPreprocessor,
+    type HuntbotModelConfig,
+    type HuntbotPreprocessConfig,
+} from "@/services/huntbot/index.js";
+import {
+    YOLODecoder,
+    YOLOModelService,
+    YOLOPreprocessor,
+    type YOLOModelConfig,
+    type YOLOPreprocessConfig,
+} from "@/services/yolo/index.js";
+import { OneHotDecoder } from "@/services/onehot/index.js";
+import { PreprocessPipeline, type PipelinePreprocessConfig } from "@/services/pipeline/index.js";
+import { CTCDecoder, CTCModelService, type CTCModelConfig } from "@/services/ctc/index.js";
+import type { AnyModelService, ModelRegistry } from "@/services/registry/index.js";
+import type { ModelManifest } from "./manifest.interface.js";
+
+type PreprocessorFactory = (config: PreprocessConfig, logger: LoggerService) => IPreprocessor;
+type DecoderFactory = (params: Record<string, any>, labels: string[]) => IDecoder<Float32Array, any>;
+type ServiceFactory = (manifest: ModelManifest, components: ModelComponents<any>) => AnyModelService;
+
+/**
+ * Preprocessor implementations addressable from `preprocessor.type`
+ */
+const PREPROCESSORS: Record<string, PreprocessorFactory> = {
+    huntbot: (config, logger) => new HuntbotPreprocessor(config as HuntbotPreprocessConfig, logger),
+    yolo: (config, logger) => new YOLOPreprocessor(config as YOLOPreprocessConfig, logger),
+    pipeline: (config, logger) => new PreprocessPipeline(config as PipelinePreprocessConfig, logger),
+};
+
+/**
+ * Decoder implementations addressable from `decoder.type`
+ */
+const DECODERS: Record<string, DecoderFactory> = {
+    huntbot: (params, labels) => new HuntbotDecoder({ ...params, labels }),
+    onehot: (params, labels) => new OneHotDecoder({ ...params, labels }),
+    yolo: (params, labels) => new YOLODecoder({
+        numClasses: labels.length,
+        classNames: labels,
+        ...params,
+    }),
+    ctc: (params, labels) => new CTCDecoder({ alphabet: labels, ...params }),
+};
+
+/**
+ * Model services addressable from `task`
+ */
+const SERVICES: Record<string, ServiceFactory> = {
+    huntbot: (manifest, components) => new HuntbotModelService(buildModelConfig(manifest) as HuntbotModelConfig, components),
+    yolo: (manifest, components) => new YOLOModelService(buildModelConfig(manifest) as YOLOModelConfig, components),
+    ctc: (manifest, components) => new CTCModelService(buildModelConfig(manifest) as CTCModelConfig, components),
+};
+
+/**
+ * Convert a manifest into the config shape expected by model services
+ */
+const buildModelConfig = (manifest: ModelManifest): ModelConfig => ({
+    id: manifest.id,
+    version: manifest.version,
+    modelPath: manifest.modelPath,
+    layout: manifest.input.layout,
+    ...(manifest.batching && { batching: manifest.batching }),
+    ...(manifest.session && { session: manifest.session }),
+    ...(manifest.cache !== undefined && { cache: manifest.cache }),
+    preprocessor: buildPreprocessConfig(manifest),
+    decoder: { ...manifest.decoder.params, labels: manifest.labels },
+});
+
+const buildPreprocessConfig = (manifest: ModelManifest): PreprocessConfig => ({
+    ...manifest.preprocessor.params,
+    layout: manifest.input.layout,
+    width: manifest.input.width,
+    height: manifest.input.height,
+    channels: manifest.input.channels,
+});
+
+/**
+ * Ensure every type referenced by the manifest has an implementation
+ */
+export const assertManifestSupported = (manifest: ModelManifest): void => {
+    const checks: [string, string, Record<string, unknown>][] = [
+        ["task", manifest.task, SERVICES],
+        ["preprocessor.type", manifest.preprocessor.type, PREPROCESSORS],
+        ["decoder.type", manifest.decoder.type, DECODERS],
+    ];
+
+    for (const [field, value, table] of checks) {
+        if (!Object.hasOwn(table, value)) {
+            throw new Error(
+                `Unsupported ${field} "${value}" in manifest "${manifest.id}" (expected one of ${Object.keys(table).join(", ")})`
+            );
+        }
+    }
+};
+
+/**
+ * Runtime options shared by all manifest-built services
+ */
+export interface ModelServiceOptions {
+    /**
+     * Session factory, e.g. backed by the inference pool
+     */
+    sessionFactory?: SessionFactory;
+    /**
+     * Shared result cache, models opt out with `cache: false`
+     */
+    cache?: ResultCache;
+    /**
+     * Logger handed to preprocessors and services
+     */
+    logger: LoggerService;
+}
+
+/**
+ * Create a model service from a validated manifest
+ */
+export const createModelService = (manifest: ModelManifest, options: ModelServiceOptions): AnyModelService => {
+    assertManifestSupported(manifest);
+
+    const components: ModelComponents<any> = {
+        preprocessor: PREPROCESSORS[manifest.preprocessor.type]!(buildPreprocessConfig(manifest), options.logger),
+        decoder: DECODERS[manifest.decoder.type]!(manifest.decoder.params, manifest.labels),
+        logger: options.logger,
+    };
+
+    if (options.sessionFactory) {
+        components.sessionFactory = options.sessionFactory;
+    }
+
+    if (options.cache) {
+        components.cache = options.cache;
+    }
+
+    return SERVICES[manifest.task]!(manifest, components);
+};
+
+/**
+ * Register a lazily created service for every manifest
+ */
+export const registerManifestModels = (
+    registry: ModelRegistry,
+    manifests: ModelManifest[],
+    options: ModelServiceOptions
+): ModelRegistry => {
+    for (const manifest of manifests) {
+        assertManifestSupported(manifest);
+        registry.register(manifest.id, () => createModelService(manifest, options));
+    }
+    return registry;
+};
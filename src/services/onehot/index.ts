@@ -0,0 +1,2 @@
+export { OneHotDecoder } from "./onehot.decoder.js";
+export type { OneHotDecoderConfig, CharacterCandidate, SequenceCandidate } from "./onehot.decoder.js";
@@ -0,0 +1,210 @@
+import { BaseDecoder, type DecodedResult, type DecoderConfig, type TensorSignature } from "@/services/interfaces/decoder.interface.js";
+import { Charset, type CharsetSpec } from "@/services/charset/charset.js";
+
+/**
+ * One-hot decoder configuration
+ */
+export interface OneHotDecoderConfig extends DecoderConfig {
+    /**
+     * Number of possible values per position, must match the charset size
+     */
+    depth?: number;
+    minConfidence?: number;
+    /**
+     * Vocabulary, defaults to `labels` or a-z
+     */
+    charset?: CharsetSpec;
+    /**
+     * Symbol for each class index, used when no charset is given
+     */
+    labels?: string[];
+    /**
+     * Number of ranked candidates kept per position in `metadata.alternatives`
+     */
+    topK?: number;
+    /**
+     * Apply softmax per position, for models that emit logits
+     */
+    softmax?: boolean;
+    /**
+     * Number of whole strings ranked by joint probability in `metadata.nBest` of the first result
+     */
+    nBest?: number;
+    /**
+     * Keep the full per-position distribution in `metadata.distribution`
+     */
+    includeDistribution?: boolean;
+}
+
+/**
+ * Ranked candidate for a single position
+ */
+export interface CharacterCandidate {
+    value: string;
+    confidence: number;
+}
+
+/**
+ * Ranked candidate for the whole string
+ */
+export interface SequenceCandidate {
+    value: string;
+    probability: number;
+}
+
+/**
+ * Fixed-slot one-hot decoder
+ * Decodes `[positions, depth]` output to one symbol per position
+ */
+export class OneHotDecoder<TConfig extends OneHotDecoderConfig = OneHotDecoderConfig> extends BaseDecoder<Float32Array, string, TConfig> {
+    protected readonly charset: Charset;
+
+    constructor(config: TConfig) {
+        const charset = OneHotDecoder.resolveCharset(config);
+
+        super({
+            minConfidence: 0,
+            ...config,
+            depth: config.depth ?? charset.size,
+        });
+
+        this.charset = charset;
+    }
+
+    public decode(array: Float32Array, config?: Partial<TConfig>): DecodedResult<string>[] {
+        const finalConfig = { ...this.defaultConfig, ...config };
+        const charset = config?.charset || config?.labels ? OneHotDecoder.resolveCharset(finalConfig) : this.charset;
+        const {
+            depth = charset.size,
+            minConfidence = 0,
+            topK = 1,
+            softmax = false,
+            nBest = 0,
+            includeDistribution = false,
+        } = finalConfig;
+
+        if (array.length === 0) {
+            throw new Error("Input array cannot be empty");
+        }
+
+        if (array.length % depth !== 0) {
+            throw new Error(
+                `Array length (${array.length}) must be divisible by depth (${depth})`
+            );
+        }
+
+        const numPositions = array.length / depth;
+        const result: DecodedResult<string>[] = [];
+        const candidates: CharacterCandidate[][] = [];
+        const candidateCount = Math.min(depth, Math.max(1, topK, nBest));
+
+        for (let position = 0; position < numPositions; position++) {
+            const startIndex = position * depth;
+            const scores = array.subarray(startIndex, startIndex + depth);
+            const probabilities = softmax ? this.softmax(scores) : scores;
+
+            // Rank indices by confidence, keeping only what is needed
+            const ranked = this.rank(probabilities, candidateCount);
+            const best = ranked[0];
+
+            // Only include results above minimum confidence threshold, blank positions hold no symbol
+            if (best && best.confidence >= minConfidence && !charset.isBlank(best.index)) {
+                const metadata: Record<string, any> = {};
+                const alternatives = ranked.map((candidate): CharacterCandidate => ({
+                    value: charset.decode(candidate.index),
+                    confidence: candidate.confidence,
+                }));
+                candidates.push(alternatives);
+
+                if (topK > 1) {
+                    metadata.alternatives = alternatives.slice(0, topK);
+                }
+
+                if (includeDistribution) {
+                    metadata.distribution = Array.from(probabilities);
+                }
+
+                result.push({
+                    value: charset.decode(best.index),
+                    confidence: best.confidence,
+                    position,
+                    ...(Object.keys(metadata).length > 0 && { metadata }),
+                });
+            }
+        }
+
+        if (nBest > 1 && result.length > 0) {
+            result[0]!.metadata = {
+                ...result[0]!.metadata,
+                nBest: this.rankSequences(candidates, nBest),
+            };
+        }
+
+        return result;
+    }
+
+    public validateOutput(output: TensorSignature): string[] {
+        const problems = super.validateOutput(output);
+        const { depth } = this.defaultConfig;
+        const classes = output.shape[output.shape.length - 1];
+
+        if (typeof classes === "number" && classes !== depth) {
+            problems.push(`output "${output.name}" has ${classes} classes per position, decoder depth is ${depth}`);
+        }
+
+        return problems;
+    }
+
+    /**
+     * Numerically stable softmax over one position
+     */
+    private softmax(scores: Float32Array): Float32Array {
+        const max = Math.max(...scores);
+        const exps = scores.map(score => Math.exp(score - max));
+        const sum = exps.reduce((acc, value) => acc + value, 0);
+        return exps.map(value => value / sum);
+    }
+
+    /**
+     * Indices of the `count` highest scores, best first
+     */
+    private rank(scores: Float32Array, count: number): { index: number; confidence: number }[] {
+        return Array.from(scores, (confidence, index) => ({ index, confidence }))
+            .sort((a, b) => b.confidence - a.confidence)
+            .slice(0, count);
+    }
+
+    /**
+     * Beam search over per-position alternatives, ranked by joint probability
+     */
+    private rankSequences(positions: CharacterCandidate[][], count: number): SequenceCandidate[] {
+        let beams: SequenceCandidate[] = [{ value: "", probability: 1 }];
+
+        for (const alternatives of positions) {
+            beams = beams
+                .flatMap(beam => alternatives.map(alternative => ({
+                    value: beam.value + alternative.value,
+                    probability: beam.probability * alternative.confidence,
+                })))
+                .sort((a, b) => b.probability - a.probability)
+                .slice(0, count);
+        }
+
+        return beams;
+    }
+
+    /**
+     * Resolve the configured charset and check it covers every class
+     */
+    private static resolveCharset(config: OneHotDecoderConfig): Charset {
+        const charset = Charset.from(
+            config.charset ?? (config.labels && config.labels.length > 0 ? { symbols: config.labels } : "lowercase")
+        );
+
+        if (config.depth !== undefined && config.depth !== charset.size) {
+            throw new Error(`Charset has ${charset.size} classes, decoder depth is ${config.depth}`);
+        }
+
+        return charset;
+    }
+}
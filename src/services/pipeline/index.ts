@@ -0,0 +1,4 @@
+export { PreprocessPipeline } from "./pipeline.preprocessor.js";
+export { createStep, STEP_NAMES } from "./pipeline.steps.js";
+export type { PipelinePreprocessConfig } from "./pipeline.preprocessor.js";
+export type { PipelineState, PipelineStep, StepConfig, StepContext, StepName } from "./pipeline.interface.js";
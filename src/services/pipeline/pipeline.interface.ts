@@ -0,0 +1,88 @@
+import type { ImageTransform, PreprocessConfig } from "@/services/interfaces/preprocessor.interface.js";
+import type { LoggerService } from "@/services/logger.service.js";
+
+/**
+ * Image flowing through a pipeline
+ * Starts as interleaved uint8 pixels, becomes a float tensor once a tensor step runs
+ */
+export interface PipelineState {
+    width: number;
+    height: number;
+    channels: number;
+    /**
+     * Interleaved HWC pixels, null once converted to a tensor
+     */
+    pixels: Buffer | null;
+    tensor: Float32Array | null;
+    /**
+     * Whether the tensor is planar CHW rather than interleaved HWC
+     */
+    planar: boolean;
+    /**
+     * Mapping from the original image to the current one
+     */
+    transform: ImageTransform;
+}
+
+/**
+ * Values shared with every step of a pipeline run
+ */
+export interface StepContext {
+    /**
+     * Target size of the pipeline, used when a step omits width/height
+     */
+    target: Readonly<PreprocessConfig>;
+    logger: LoggerService | undefined;
+}
+
+/**
+ * Single named preprocessing operation
+ */
+export interface PipelineStep {
+    readonly name: string;
+    apply(state: PipelineState, context: StepContext): Promise<PipelineState> | PipelineState;
+}
+
+type RGBA = { r: number; g: number; b: number; alpha?: number };
+
+/**
+ * Declarative step definitions, as written in manifests
+ */
+export type StepConfig =
+    /**
+     * Crop to the target size when larger, centered unless left/top are given
+     */
+    | { op: "crop"; width?: number; height?: number; left?: number; top?: number }
+    /**
+     * Pad to the target size when smaller, keeping the image centered
+     */
+    | { op: "pad"; width?: number; height?: number; background?: RGBA }
+    /**
+     * Stretch to the target size
+     */
+    | { op: "resize"; width?: number; height?: number }
+    /**
+     * Scale to fit keeping aspect ratio, pad the remainder
+     */
+    | { op: "letterbox"; width?: number; height?: number; padColor?: RGBA }
+    | { op: "grayscale" }
+    | { op: "ensureAlpha" }
+    | { op: "threshold"; value?: number }
+    /**
+     * Remove the alpha channel, flattening onto a background when given
+     */
+    | { op: "removeAlpha"; background?: RGBA }
+    /**
+     * Convert to a tensor: `(pixel * scale - mean) / std` per channel
+     */
+    | { op: "normalize"; scale?: number; mean?: number[]; std?: number[] }
+    /**
+     * Convert to a single channel tensor: 1 where alpha is below the threshold, else 0
+     */
+    | { op: "alphaMask"; threshold?: number; invert?: boolean }
+    /**
+     * Reorder tensor channels to planar CHW or interleaved HWC
+     */
+    | { op: "reorder"; layout: "NCHW" | "NHWC" };
+
+export type StepName = StepConfig["op"];
@@ -0,0 +1,122 @@
+import sharp from "sharp";
+import { BasePreprocessor, type PreprocessConfig, type PreprocessResult } from "@/services/interfaces/preprocessor.interface.js";
+import { InferenceError, InvalidInputError, describeError } from "@/errors/app.errors.js";
+import type { LoggerService } from "@/services/logger.service.js";
+import type { PipelineState, PipelineStep, StepConfig } from "./pipeline.interface.js";
+import { createStep } from "./pipeline.steps.js";
+
+/**
+ * Pipeline preprocessing configuration
+ * Steps run in order, width/height/channels describe the final tensor
+ */
+export interface PipelinePreprocessConfig extends PreprocessConfig {
+    steps: (StepConfig | PipelineStep)[];
+}
+
+/**
+ * Preprocessor assembled from named steps
+ * A pipeline that ends on pixels is scaled to [0, 1]
+ */
+export class PreprocessPipeline extends BasePreprocessor<PipelinePreprocessConfig> {
+    private readonly steps: PipelineStep[];
+
+    constructor(config: PipelinePreprocessConfig, logger: LoggerService) {
+        super(config, { ...config, steps: config.steps ?? [] }, logger);
+
+        this.steps = this.config.steps.map(step => "apply" in step ? step : createStep(step));
+    }
+
+    /**
+     * Names of the steps in execution order
+     */
+    public getStepNames(): string[] {
+        return this.steps.map(step => step.name);
+    }
+
+    public async preprocess(imageBuffer: Buffer): Promise<PreprocessResult> {
+        const { data, info } = await sharp(imageBuffer)
+            .raw()
+            .toBuffer({ resolveWithObject: true })
+            .catch(error => {
+                throw new InvalidInputError(
+                    `Image preprocessing failed: ${describeError(error)}`,
+                    "The image could not be read, please send a valid PNG, JPEG or WebP image.",
+                    { cause: error }
+                );
+            });
+
+        let state: PipelineState = {
+            width: info.width,
+            height: info.height,
+            channels: info.channels,
+            pixels: data,
+            tensor: null,
+            planar: false,
+            transform: {
+                scaleX: 1,
+                scaleY: 1,
+                padX: 0,
+                padY: 0,
+                originalWidth: info.width,
+                originalHeight: info.height,
+            },
+        };
+
+        this.logger?.debug(`Original image: ${info.width}x${info.height}, channels: ${info.channels}`);
+
+        for (const step of this.steps) {
+            try {
+                state = await step.apply(state, { target: this.config, logger: this.logger });
+            } catch (error) {
+                throw new InferenceError(`Image preprocessing failed at step "${step.name}": ${describeError(error)}`, {
+                    cause: error,
+                    details: { step: step.name },
+                });
+            }
+        }
+
+        this.assertOutput(state);
+        const tensor = state.tensor ?? Float32Array.from(state.pixels!, value => value / 255);
+
+        this.logger?.debug(`Processed image: ${state.width}x${state.height}, channels: ${state.channels}`);
+
+        return {
+            data: tensor,
+            width: state.width,
+            height: state.height,
+            channels: state.channels,
+            metadata: {
+                steps: this.getStepNames(),
+                layout: state.planar ? "NCHW" : "NHWC",
+                transform: state.transform,
+            },
+        };
+    }
+
+    /**
+     * Ensure the final tensor matches what the model expects
+     */
+    private assertOutput(state: PipelineState): void {
+        const { width, height, channels, layout } = this.config;
+
+        if (!state.tensor && !state.pixels) {
+            throw new InferenceError(
+                `Preprocessing pipeline ended without pixels or a tensor after steps ${this.getStepNames().join(", ") || "(none)"}`
+            );
+        }
+
+        if (state.width !== width || state.height !== height || state.channels !== channels) {
+            throw new InferenceError(
+                `Preprocessing pipeline produced ${state.width}x${state.height}x${state.channels}, ` +
+                `model expects ${width}x${height}x${channels}`
+            );
+        }
+
+        if (layout && state.channels > 1 && state.planar !== (layout === "NCHW")) {
+            throw new InferenceError(
+                `Preprocessing pipeline produced ${state.planar ? "planar" : "interleaved"} data for a ${layout} model, ` +
+                `add a "reorder" step`
+            );
+        }
+    }
+}
@@ -0,0 +1,256 @@
+import sharp, { type Sharp } from "sharp";
+import type { ImageTransform } from "@/services/interfaces/preprocessor.interface.js";
+import type { PipelineState, PipelineStep, StepConfig, StepName } from "./pipeline.interface.js";
+
+type StepFactory<K extends StepName> = (config: Extract<StepConfig, { op: K }>) => PipelineStep;
+
+const requirePixels = (state: PipelineState, step: string): Buffer => {
+    if (!state.pixels) {
+        throw new Error(`Step "${step}" must run before the image is converted to a tensor`);
+    }
+    return state.pixels;
+};
+
+const requireTensor = (state: PipelineState, step: string): Float32Array => {
+    if (!state.tensor) {
+        throw new Error(`Step "${step}" needs a tensor, add "normalize" or "alphaMask" before it`);
+    }
+    return state.tensor;
+};
+
+/**
+ * Apply a further `current * scale + pad` mapping on top of a transform
+ */
+const compose = (transform: ImageTransform, scaleX: number, scaleY: number, padX: number, padY: number): ImageTransform => ({
+    ...transform,
+    scaleX: transform.scaleX * scaleX,
+    scaleY: transform.scaleY * scaleY,
+    padX: transform.padX * scaleX + padX,
+    padY: transform.padY * scaleY + padY,
+});
+
+/**
+ * Run a sharp operation on the current pixels and read the result back
+ * Each step materializes its output so operations apply in declaration order
+ */
+const withSharp = async (
+    state: PipelineState,
+    step: string,
+    operation: (image: Sharp) => Sharp,
+    transform: ImageTransform = state.transform
+): Promise<PipelineState> => {
+    const pixels = requirePixels(state, step);
+    const image = sharp(pixels, {
+        raw: { width: state.width, height: state.height, channels: state.channels as 1 | 2 | 3 | 4 },
+    });
+
+    const { data, info } = await operation(image)
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    return {
+        ...state,
+        width: info.width,
+        height: info.height,
+        channels: info.channels,
+        pixels: data,
+        transform,
+    };
+};
+
+/**
+ * Step implementations addressable from `op`
+ */
+const STEPS: { [K in StepName]: StepFactory<K> } = {
+    crop: (config) => ({
+        name: "crop",
+        apply: (state, { target }) => {
+            const width = Math.min(state.width, config.width ?? target.width);
+            const height = Math.min(state.height, config.height ?? target.height);
+
+            if (width === state.width && height === state.height) return state;
+
+            const left = Math.min(config.left ?? Math.floor((state.width - width) / 2), state.width - width);
+            const top = Math.min(config.top ?? Math.floor((state.height - height) / 2), state.height - height);
+
+            return withSharp(
+                state,
+                "crop",
+                image => image.extract({ left, top, width, height }),
+                compose(state.transform, 1, 1, -left, -top)
+            );
+        },
+    }),
+
+    pad: (config) => ({
+        name: "pad",
+        apply: (state, { target }) => {
+            const paddingX = Math.max(0, (config.width ?? target.width) - state.width);
+            const paddingY = Math.max(0, (config.height ?? target.height) - state.height);
+
+            if (paddingX === 0 && paddingY === 0) return state;
+
+            const left = Math.floor(paddingX / 2);
+            const top = Math.floor(paddingY / 2);
+
+            return withSharp(
+                state,
+                "pad",
+                image => image.extend({
+                    left,
+                    top,
+                    right: paddingX - left,
+                    bottom: paddingY - top,
+                    background: config.background ?? { r: 0, g: 0, b: 0, alpha: 0 },
+                }),
+                compose(state.transform, 1, 1, left, top)
+            );
+        },
+    }),
+
+    resize: (config) => ({
+        name: "resize",
+        apply: (state, { target }) => {
+            const width = config.width ?? target.width;
+            const height = config.height ?? target.height;
+
+            return withSharp(
+                state,
+                "resize",
+                image => image.resize(width, height, { fit: "fill" }),
+                compose(state.transform, width / state.width, height / state.height, 0, 0)
+            );
+        },
+    }),
+
+    letterbox: (config) => ({
+        name: "letterbox",
+        apply: (state, { target, logger }) => {
+            const width = config.width ?? target.width;
+            const height = config.height ?? target.height;
+            const scale = Math.min(width / state.width, height / state.height);
+            const resizedWidth = Math.max(1, Math.round(state.width * scale));
+            const resizedHeight = Math.max(1, Math.round(state.height * scale));
+            const padX = Math.floor((width - resizedWidth) / 2);
+            const padY = Math.floor((height - resizedHeight) / 2);
+
+            logger?.debug(`Letterbox: scale=${scale.toFixed(4)}, resized=${resizedWidth}x${resizedHeight}, pad=${padX},${padY}`);
+
+            return withSharp(
+                state,
+                "letterbox",
+                image => image
+                    .resize(resizedWidth, resizedHeight, { fit: "fill" })
+                    .extend({
+                        left: padX,
+                        top: padY,
+                        right: width - resizedWidth - padX,
+                        bottom: height - resizedHeight - padY,
+                        background: config.padColor ?? { r: 114, g: 114, b: 114 },
+                    }),
+                compose(state.transform, resizedWidth / state.width, resizedHeight / state.height, padX, padY)
+            );
+        },
+    }),
+
+    grayscale: () => ({
+        name: "grayscale",
+        apply: (state) => withSharp(state, "grayscale", image => image.grayscale()),
+    }),
+
+    ensureAlpha: () => ({
+        name: "ensureAlpha",
+        apply: (state) => withSharp(state, "ensureAlpha", image => image.ensureAlpha()),
+    }),
+
+    threshold: (config) => ({
+        name: "threshold",
+        apply: (state) => withSharp(state, "threshold", image => image.threshold(config.value ?? 128)),
+    }),
+
+    removeAlpha: (config) => ({
+        name: "removeAlpha",
+        apply: (state) => withSharp(
+            state,
+            "removeAlpha",
+            image => config.background ? image.flatten({ background: config.background }) : image.removeAlpha()
+        ),
+    }),
+
+    normalize: (config) => ({
+        name: "normalize",
+        apply: (state) => {
+            const pixels = requirePixels(state, "normalize");
+            const { scale = 1 / 255, mean = [], std = [] } = config;
+            const tensor = new Float32Array(pixels.length);
+
+            for (let i = 0; i < pixels.length; i++) {
+                const c = i % state.channels;
+                tensor[i] = (pixels[i]! * scale - (mean[c] ?? 0)) / (std[c] ?? 1);
+            }
+
+            return { ...state, pixels: null, tensor };
+        },
+    }),
+
+    alphaMask: (config) => ({
+        name: "alphaMask",
+        apply: (state) => {
+            const pixels = requirePixels(state, "alphaMask");
+            const { threshold = 254, invert = false } = config;
+            const alphaOffset = state.channels === 4 || state.channels === 2 ? state.channels - 1 : -1;
+            const tensor = new Float32Array(state.width * state.height);
+
+            for (let p = 0; p < tensor.length; p++) {
+                // Images without alpha are fully opaque
+                const alpha = alphaOffset >= 0 ? pixels[p * state.channels + alphaOffset]! : 255;
+                tensor[p] = (alpha < threshold) !== invert ? 1 : 0;
+            }
+
+            return { ...state, channels: 1, pixels: null, tensor };
+        },
+    }),
+
+    reorder: (config) => ({
+        name: "reorder",
+        apply: (state) => {
+            const source = requireTensor(state, "reorder");
+            const planar = config.layout === "NCHW";
+
+            if (planar === state.planar || state.channels === 1) {
+                return { ...state, planar };
+            }
+
+            const pixels = state.width * state.height;
+            const tensor = new Float32Array(source.length);
+
+            for (let p = 0; p < pixels; p++) {
+                for (let c = 0; c < state.channels; c++) {
+                    const interleaved = p * state.channels + c;
+                    const chw = c * pixels + p;
+
+                    if (planar) tensor[chw] = source[interleaved]!;
+                    else tensor[interleaved] = source[chw]!;
+                }
+            }
+
+            return { ...state, tensor, planar };
+        },
+    }),
+};
+
+/**
+ * Names of every available step
+ */
+export const STEP_NAMES = Object.keys(STEPS) as StepName[];
+
+/**
+ * Build a step from its declaration
+ */
+export const createStep = (config: StepConfig): PipelineStep => {
+    if (!Object.hasOwn(STEPS, config.op)) {
+        throw new Error(`Unknown preprocessing step "${config.op}" (expected one of ${STEP_NAMES.join(", ")})`);
+    }
+
+    return (STEPS[config.op] as StepFactory<StepName>)(config);
+};
@@ -0,0 +1,2 @@
+export { Redactor, DEFAULT_REDACTION_RULES } from "./redactor.js";
+export type { RedactionRule, RedactorConfig } from "./redactor.js";
@@ -0,0 +1,161 @@
+/**
+ * A pattern whose matches are masked before text leaves the process
+ */
+export interface RedactionRule {
+    name: string;
+    /**
+     * Must be global so every occurrence is replaced
+     */
+    pattern: RegExp;
+    /**
+     * Replacement string (supports $1 group references) or replacer function
+     */
+    replacement: string | ((match: string, ...groups: string[]) => string);
+}
+
+/**
+ * Redaction rules and literal secret values
+ */
+export interface RedactorConfig {
+    rules: RedactionRule[];
+    /**
+     * Exact values masked wherever they appear, e.g. the bot token from the environment
+     */
+    secrets: string[];
+}
+
+/**
+ * Hosts whose URLs are kept (minus signed params) since they carry no user content
+ */
+const TRUSTED_URL_HOSTS = new Set([
+    "cdn.discordapp.com",
+    "media.discordapp.net",
+    "discord.com",
+    "discordapp.com",
+]);
+
+/**
+ * Environment variables whose values are always treated as secrets
+ */
+const SECRET_ENV_KEYS = ["BOT_TOKEN", "COMMAND_LOG_WEBHOOK_URL", "DATABASE_URL"];
+
+/**
+ * Shorter values would mask unrelated text
+ */
+const MIN_SECRET_LENGTH = 8;
+
+const REDACTED = "[REDACTED]";
+
+export const DEFAULT_REDACTION_RULES: readonly RedactionRule[] = [
+    {
+        name: "discordToken",
+        pattern: /\b[\w-]{23,28}\.[\w-]{6,7}\.[\w-]{27,38}\b/g,
+        replacement: REDACTED,
+    },
+    {
+        name: "webhookUrl",
+        pattern: /https?:\/\/(?:(?:canary|ptb)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/\d+\/[\w-]+/gi,
+        replacement: `[REDACTED_WEBHOOK]`,
+    },
+    {
+        name: "connectionString",
+        pattern: /\b([a-z][a-z\d+.-]*:\/\/[^:\s/@]+:)[^@\s]+@/gi,
+        replacement: `$1${REDACTED}@`,
+    },
+    {
+        name: "signedCdnParams",
+        pattern: /([?&](?:ex|is|hm)=)[^&\s"'<>)`]+/gi,
+        replacement: `$1${REDACTED}`,
+    },
+    {
+        name: "userUrl",
+        pattern: /https?:\/\/[^\s"'<>)`]+/gi,
+        replacement: (match: string) => {
+            try {
+                const url = new URL(match);
+                return TRUSTED_URL_HOSTS.has(url.hostname.toLowerCase()) ? match : `${url.protocol}//${url.host}/${REDACTED}`;
+            } catch {
+                return REDACTED;
+            }
+        },
+    },
+];
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Masks tokens, webhook URLs, signed CDN params and user-supplied URLs in logged text
+ */
+export class Redactor {
+    private readonly rules: RedactionRule[];
+
+    constructor(config: Partial<RedactorConfig> = {}) {
+        const secrets = [...new Set(config.secrets ?? [])].filter(secret => secret.length >= MIN_SECRET_LENGTH);
+        const rules = config.rules ?? [...DEFAULT_REDACTION_RULES];
+
+        for (const rule of rules) {
+            if (!rule.pattern.global) {
+                throw new Error(`Redaction rule "${rule.name}" must use a global pattern`);
+            }
+        }
+
+        // Literal secrets go first so a token inside a URL is masked before the URL rules rewrite it
+        this.rules = [
+            ...secrets.map((secret, index): RedactionRule => ({
+                name: `secret${index}`,
+                pattern: new RegExp(escapeRegExp(secret), "g"),
+                replacement: REDACTED,
+            })),
+            ...rules,
+        ];
+    }
+
+    /**
+     * Default rules plus secrets from the environment and extra LOG_REDACT_PATTERNS
+     * Patterns are separated by whitespace, so write a literal space in a pattern as \s
+     */
+    static fromEnv(env: NodeJS.ProcessEnv = process.env): Redactor {
+        const extra = (env.LOG_REDACT_PATTERNS ?? "").split(/\s+/).filter(Boolean);
+
+        return new Redactor({
+            rules: [
+                ...DEFAULT_REDACTION_RULES,
+                ...extra.map((pattern, index): RedactionRule => ({
+                    name: `custom${index}`,
+                    pattern: new RegExp(pattern, "g"),
+                    replacement: REDACTED,
+                })),
+            ],
+            secrets: SECRET_ENV_KEYS.map(key => env[key] ?? ""),
+        });
+    }
+
+    redact(text: string): string {
+        let result = text;
+        for (const rule of this.rules) {
+            // replace() accepts either form, its overloads just cannot take the union
+            result = result.replace(rule.pattern, rule.replacement as string);
+        }
+        return result;
+    }
+
+    /**
+     * Redact every string inside a JSON-like value, leaving its shape intact
+     */
+    redactValue<T>(value: T): T {
+        return this.redactDeep(value, new WeakSet()) as T;
+    }
+
+    private redactDeep(value: unknown, seen: WeakSet<object>): unknown {
+        if (typeof value === "string") return this.redact(value);
+        if (value === null || typeof value !== "object") return value;
+        if (seen.has(value)) return "[Circular]";
+        seen.add(value);
+
+        if (Array.isArray(value)) {
+            return value.map(item => this.redactDeep(item, seen));
+        }
+
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.redactDeep(item, seen)]));
+    }
+}
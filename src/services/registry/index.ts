@@ -0,0 +1,3 @@
+export { ModelRegistry } from "./model.registry.js";
+export { ModelWatcher } from "./model.watcher.js";
+export type { AnyModelService, ModelFactory, ModelDescriptor } from "./model.registry.js";
@@ -0,0 +1,170 @@
+import path from "node:path";
+import type { BaseONNXModelService, ModelVersion } from "@/services/interfaces/model.interface.js";
+import type { LoggerService } from "@/services/logger.service.js";
+import { ModelUnavailableError } from "@/errors/app.errors.js";
+
+/**
+ * Any ONNX model service, regardless of its input/output/config types
+ */
+export type AnyModelService = BaseONNXModelService<any, any, any>;
+
+/**
+ * Factory used to lazily construct a model service
+ */
+export type ModelFactory<T extends AnyModelService = AnyModelService> = () => T;
+
+/**
+ * Public description of a registered model
+ */
+export interface ModelDescriptor {
+    id: string;
+    initialized: boolean;
+    active: ModelVersion | null;
+    previous: ModelVersion | null;
+}
+
+/**
+ * Registry of ONNX model services keyed by id
+ * Services are constructed and initialized on first use
+ */
+export class ModelRegistry {
+    private readonly factories = new Map<string, ModelFactory>();
+    private readonly instances = new Map<string, AnyModelService>();
+    private readonly pending = new Map<string, Promise<AnyModelService>>();
+    private readonly logger: LoggerService;
+
+    constructor(logger: LoggerService) {
+        this.logger = logger;
+    }
+
+    /**
+     * Register a model factory under the given id
+     */
+    public register<T extends AnyModelService>(id: string, factory: ModelFactory<T>): this {
+        if (this.factories.has(id)) {
+            throw new Error(`Model "${id}" is already registered`);
+        }
+
+        this.factories.set(id, factory);
+        this.logger.debug(`Registered model: ${id}`);
+        return this;
+    }
+
+    /**
+     * Check whether a model id is registered
+     */
+    public has(id: string): boolean {
+        return this.factories.has(id);
+    }
+
+    /**
+     * List all registered models
+     */
+    public list(): ModelDescriptor[] {
+        return Array.from(this.factories.keys()).map(id => {
+            const instance = this.instances.get(id);
+            const versions = instance?.getVersions();
+
+            return {
+                id,
+                initialized: instance?.isInitialized() ?? false,
+                active: versions?.active ?? null,
+                previous: versions?.previous ?? null,
+            };
+        });
+    }
+
+    /**
+     * Get an initialized model service, creating it on first use
+     */
+    public async get<T extends AnyModelService>(id: string): Promise<T> {
+        const existing = this.instances.get(id);
+        if (existing?.isInitialized()) {
+            return existing as T;
+        }
+
+        let pending = this.pending.get(id);
+        if (!pending) {
+            pending = this.createAndInitialize(id).finally(() => this.pending.delete(id));
+            this.pending.set(id, pending);
+        }
+
+        return pending as Promise<T>;
+    }
+
+    /**
+     * Create and initialize every registered model
+     */
+    public async initializeAll(): Promise<void> {
+        await Promise.all(Array.from(this.factories.keys()).map(id => this.get(id)));
+    }
+
+    /**
+     * Hot-swap a model from its file on disk
+     */
+    public async reload(id: string): Promise<ModelVersion> {
+        const instance = await this.get(id);
+        return instance.reload();
+    }
+
+    /**
+     * Restore the version that was active before the last reload
+     */
+    public async rollback(id: string): Promise<ModelVersion> {
+        const instance = await this.get(id);
+        return instance.rollback();
+    }
+
+    /**
+     * Ids of created models loaded from the given file
+     */
+    public findByModelPath(modelPath: string): string[] {
+        const target = path.resolve(modelPath);
+
+        return Array.from(this.instances.entries())
+            .filter(([, instance]) => path.resolve(instance.getConfig().modelPath) === target)
+            .map(([id]) => id);
+    }
+
+    /**
+     * Dispose a single model, it will be recreated on next use
+     */
+    public async dispose(id: string): Promise<void> {
+        const instance = this.instances.get(id);
+        if (!instance) return;
+
+        this.instances.delete(id);
+        await instance.dispose();
+        this.logger.debug(`Disposed model: ${id}`);
+    }
+
+    /**
+     * Dispose every model that has been created
+     */
+    public async disposeAll(): Promise<void> {
+        const ids = Array.from(this.instances.keys());
+        const results = await Promise.allSettled(ids.map(id => this.dispose(id)));
+
+        for (const [index, result] of results.entries()) {
+            if (result.status === "rejected") {
+                this.logger.error(`Failed to dispose model ${ids[index]}:`, result.reason);
+            }
+        }
+    }
+
+    private async createAndInitialize(id: string): Promise<AnyModelService> {
+        const factory = this.factories.get(id);
+        if (!factory) {
+            throw new ModelUnavailableError(`Model "${id}" is not registered`, { details: { model: id } });
+        }
+
+        let instance = this.instances.get(id);
+        if (!instance) {
+            instance = factory();
+            this.instances.set(id, instance);
+        }
+
+        await instance.initialize();
+        return instance;
+    }
+}
@@ -0,0 +1,71 @@
+import { watch, type FSWatcher } from "node:fs";
+import path from "node:path";
+import type { LoggerService } from "@/services/logger.service.js";
+import type { ModelRegistry } from "./model.registry.js";
+
+const DEFAULT_DEBOUNCE_MS = 1_000;
+
+/**
+ * Watches a model directory and hot-reloads models whose file changed
+ * Only models that have already been created are reloaded
+ */
+export class ModelWatcher {
+    private readonly registry: ModelRegistry;
+    private readonly directory: string;
+    private readonly logger: LoggerService;
+    private readonly debounceMs: number;
+    private readonly timers = new Map<string, NodeJS.Timeout>();
+    private watcher: FSWatcher | null = null;
+
+    constructor(registry: ModelRegistry, directory: string, logger: LoggerService, debounceMs = DEFAULT_DEBOUNCE_MS) {
+        this.registry = registry;
+        this.directory = directory;
+        this.logger = logger;
+        this.debounceMs = debounceMs;
+    }
+
+    public start(): void {
+        if (this.watcher) return;
+
+        this.watcher = watch(this.directory, (_event, filename) => {
+            if (filename?.endsWith(".onnx")) {
+                this.schedule(filename);
+            }
+        });
+
+        this.logger.info(`Watching ${this.directory} for model changes`);
+    }
+
+    public stop(): void {
+        this.watcher?.close();
+        this.watcher = null;
+
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    /**
+     * Wait for writes to settle before reloading
+     */
+    private schedule(filename: string): void {
+        clearTimeout(this.timers.get(filename));
+
+        this.timers.set(filename, setTimeout(() => {
+            this.timers.delete(filename);
+            void this.reload(path.join(this.directory, filename));
+        }, this.debounceMs));
+    }
+
+    private async reload(modelPath: string): Promise<void> {
+        for (const id of this.registry.findByModelPath(modelPath)) {
+            try {
+                const version = await this.registry.reload(id);
+                this.logger.info(`Hot-reloaded model ${id} (${version.version}, ${version.hash})`);
+            } catch (error) {
+                this.logger.error(`Hot-reload of model ${id} failed, keeping current version:`, error);
+            }
+        }
+    }
+}
@@ -0,0 +1,12 @@
+export { UserService, QuotaExceededError, DEFAULT_TIER_QUOTAS, getOwnerIds, isOwnerId } from "./user.service.js";
+export type {
+    UserTier,
+    QuotaPeriod,
+    QuotaLimits,
+    TierQuotas,
+    UserServiceConfig,
+    DiscordUserLike,
+    UserRecord,
+    QuotaUsage,
+    QuotaStatus,
+} from "./user.service.js";
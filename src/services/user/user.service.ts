@@ -0,0 +1,417 @@
+import type { LoggerService } from "@/services/logger.service.js";
+import type { DatabaseService, QueryExecutor } from "@/services/database/index.js";
+import { RateLimitedError } from "@/errors/app.errors.js";
+
+export type UserTier = "free" | "paid" | "owner";
+
+export type QuotaPeriod = "day" | "month";
+
+/**
+ * Uses allowed per period, null means unlimited
+ */
+export interface QuotaLimits {
+    daily: number | null;
+    monthly: number | null;
+}
+
+/**
+ * Limits per tier and command, commands without an entry are unlimited
+ */
+export type TierQuotas = Record<UserTier, Record<string, Partial<QuotaLimits>>>;
+
+export interface UserServiceConfig {
+    quotas: TierQuotas;
+    /**
+     * Discord users that are always treated as owners
+     */
+    ownerIds: string[];
+}
+
+export const DEFAULT_TIER_QUOTAS: TierQuotas = {
+    free: {
+        solve: { daily: 20, monthly: 300 },
+    },
+    paid: {
+        solve: { daily: 500, monthly: 10_000 },
+    },
+    owner: {},
+};
+
+/**
+ * Discord user ids listed in OWNER_IDS
+ */
+export const getOwnerIds = (env: NodeJS.ProcessEnv = process.env): string[] =>
+    (env.OWNER_IDS ?? "").split(",").map(id => id.trim()).filter(Boolean);
+
+let ownerIdCache: { raw: string; ids: ReadonlySet<string> } | null = null;
+
+/**
+ * Whether a Discord user is listed in OWNER_IDS
+ * The parsed list is kept until OWNER_IDS changes, so hot paths like preconditions do not re-split it
+ */
+export const isOwnerId = (userId: string): boolean => {
+    const raw = process.env.OWNER_IDS ?? "";
+    if (ownerIdCache?.raw !== raw) {
+        ownerIdCache = { raw, ids: new Set(getOwnerIds()) };
+    }
+    return ownerIdCache.ids.has(userId);
+};
+
+/**
+ * Minimal view of a Discord user, satisfied by discord.js `User`
+ */
+export interface DiscordUserLike {
+    id: string;
+    username: string;
+}
+
+export interface UserRecord {
+    id: string;
+    username: string | null;
+    /**
+     * Stored tier, see `effectiveTier` for the one quotas apply to
+     */
+    tier: UserTier;
+    /**
+     * Tier after owner overrides and expiry
+     */
+    effectiveTier: UserTier;
+    tierExpiresAt: Date | null;
+    createdAt: Date;
+}
+
+export interface QuotaUsage {
+    used: number;
+    limit: number | null;
+    resetsAt: Date;
+}
+
+/**
+ * Outcome of a quota check for one user and command
+ */
+export interface QuotaStatus {
+    allowed: boolean;
+    tier: UserTier;
+    daily: QuotaUsage;
+    monthly: QuotaUsage;
+    /**
+     * Period that is used up, when not allowed
+     */
+    exceeded?: QuotaPeriod;
+}
+
+interface UserRow {
+    id: string;
+    username: string | null;
+    tier: UserTier;
+    tier_expires_at: Date | null;
+    created_at: Date;
+}
+
+interface UsageRow {
+    period: QuotaPeriod;
+    count: number;
+}
+
+const USER_COLUMNS = "id, username, tier, tier_expires_at, created_at";
+
+/**
+ * Thrown when a user has used up a command's quota
+ */
+export class QuotaExceededError extends RateLimitedError {
+    public readonly status: QuotaStatus;
+
+    constructor(command: string, status: QuotaStatus) {
+        const usage = status.exceeded === "month" ? status.monthly : status.daily;
+        const period = status.exceeded === "month" ? "monthly" : "daily";
+
+        super(
+            `Quota exceeded for /${command} (${period} ${usage.used}/${usage.limit}, tier ${status.tier})`,
+            `You have used all ${usage.limit} ${period} /${command} uses of the ${status.tier} tier.`,
+            { retryAfterMs: usage.resetsAt.getTime() - Date.now(), details: { command, tier: status.tier } }
+        );
+        this.status = status;
+    }
+}
+
+/**
+ * Start of the UTC day or month containing date, as YYYY-MM-DD
+ */
+const periodStart = (date: Date, period: QuotaPeriod): string => {
+    const day = period === "day" ? date.getUTCDate() : 1;
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), day)).toISOString().slice(0, 10);
+};
+
+const periodEnd = (date: Date, period: QuotaPeriod): Date => period === "day"
+    ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1))
+    : new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+
+/**
+ * Discord user accounts with tiers and per-command usage quotas
+ */
+export class UserService {
+    private readonly config: UserServiceConfig;
+    private readonly db: DatabaseService;
+    private readonly logger: LoggerService;
+    private readonly ownerIds: Set<string>;
+
+    constructor(config: Partial<UserServiceConfig>, db: DatabaseService, logger: LoggerService) {
+        this.config = { quotas: DEFAULT_TIER_QUOTAS, ownerIds: [], ...config };
+        this.db = db;
+        this.logger = logger;
+        this.ownerIds = new Set(this.config.ownerIds);
+    }
+
+    /**
+     * Create the user on first sight and keep their username current
+     */
+    async ensureUser(user: DiscordUserLike, executor: QueryExecutor = this.db): Promise<UserRecord> {
+        const row = await executor.queryOne<UserRow>(
+            `INSERT INTO users (id, username) VALUES ($1, $2)
+             ON CONFLICT (id) DO UPDATE SET username = EXCLUDED.username, updated_at = now()
+             RETURNING ${USER_COLUMNS}`,
+            [user.id, user.username]
+        );
+
+        return this.toRecord(row!);
+    }
+
+    async getUser(id: string): Promise<UserRecord | null> {
+        const row = await this.db.queryOne<UserRow>(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1`, [id]);
+        return row ? this.toRecord(row) : null;
+    }
+
+    /**
+     * Change a user's tier, creating the user if needed
+     * @param expiresAt When the tier falls back to free, null to never expire
+     * @param executor Transaction to run in, e.g. together with an audit entry
+     */
+    async setTier(id: string, tier: UserTier, expiresAt: Date | null = null, executor: QueryExecutor = this.db): Promise<UserRecord> {
+        const row = await executor.queryOne<UserRow>(
+            `INSERT INTO users (id, tier, tier_expires_at) VALUES ($1, $2, $3)
+             ON CONFLICT (id) DO UPDATE SET tier = EXCLUDED.tier, tier_expires_at = EXCLUDED.tier_expires_at, updated_at = now()
+             RETURNING ${USER_COLUMNS}`,
+            [id, tier, expiresAt]
+        );
+
+        this.logger.info(`Set tier of ${id} to ${tier}${expiresAt ? ` until ${expiresAt.toISOString()}` : ""}`);
+        return this.toRecord(row!);
+    }
+
+    getLimits(tier: UserTier, command: string): QuotaLimits {
+        const limits = this.config.quotas[tier][command];
+        return { daily: limits?.daily ?? null, monthly: limits?.monthly ?? null };
+    }
+
+    /**
+     * Commands limited on any tier
+     */
+    getQuotaCommands(): string[] {
+        return [...new Set(Object.values(this.config.quotas).flatMap(quotas => Object.keys(quotas)))];
+    }
+
+    /**
+     * Tier limits with the user's override applied on top
+     */
+    async getUserLimits(userId: string, tier: UserTier, command: string, executor: QueryExecutor = this.db): Promise<QuotaLimits> {
+        const limits = this.getLimits(tier, command);
+        const override = await executor.queryOne<{ daily_limit: number | null; monthly_limit: number | null }>(
+            "SELECT daily_limit, monthly_limit FROM quota_overrides WHERE user_id = $1 AND command = $2",
+            [userId, command]
+        );
+
+        return {
+            daily: override?.daily_limit ?? limits.daily,
+            monthly: override?.monthly_limit ?? limits.monthly,
+        };
+    }
+
+    /**
+     * Replace a user's limits for one command, null limits keep the tier default
+     * Clearing both removes the override
+     */
+    async setQuotaOverride(userId: string, command: string, limits: QuotaLimits, executor: QueryExecutor = this.db): Promise<void> {
+        if (limits.daily === null && limits.monthly === null) {
+            await executor.query("DELETE FROM quota_overrides WHERE user_id = $1 AND command = $2", [userId, command]);
+            return;
+        }
+
+        await executor.query("INSERT INTO users (id) VALUES ($1) ON CONFLICT (id) DO NOTHING", [userId]);
+        await executor.query(
+            `INSERT INTO quota_overrides (user_id, command, daily_limit, monthly_limit) VALUES ($1, $2, $3, $4)
+             ON CONFLICT (user_id, command) DO UPDATE
+             SET daily_limit = EXCLUDED.daily_limit, monthly_limit = EXCLUDED.monthly_limit, updated_at = now()`,
+            [userId, command, limits.daily, limits.monthly]
+        );
+    }
+
+    /**
+     * Forget the current day's and month's usage, of one command or all of them
+     * @returns Number of counters removed
+     */
+    async resetUsage(userId: string, command: string | null = null, executor: QueryExecutor = this.db, now: Date = new Date()): Promise<number> {
+        const rows = await executor.query(
+            `DELETE FROM usage_counters
+             WHERE user_id = $1 AND ($2::text IS NULL OR command = $2)
+               AND ((period = 'day' AND period_start = $3) OR (period = 'month' AND period_start = $4))
+             RETURNING command`,
+            [userId, command, periodStart(now, "day"), periodStart(now, "month")]
+        );
+        return rows.length;
+    }
+
+    /**
+     * Number of users per stored tier, and how many paid tiers have lapsed
+     */
+    async countByTier(): Promise<Record<UserTier, number> & { expired: number }> {
+        const rows = await this.db.query<{ tier: UserTier; total: string; expired: string }>(
+            `SELECT tier, count(*) AS total, count(*) FILTER (WHERE tier_expires_at <= now()) AS expired
+             FROM users GROUP BY tier`
+        );
+        const count = (tier: UserTier) => Number(rows.find(row => row.tier === tier)?.total ?? 0);
+
+        return {
+            free: count("free"),
+            paid: count("paid"),
+            owner: count("owner"),
+            expired: rows.reduce((sum, row) => sum + Number(row.expired), 0),
+        };
+    }
+
+    /**
+     * Current usage of a command against the user's tier limits
+     */
+    async checkQuota(user: DiscordUserLike, command: string, now: Date = new Date()): Promise<QuotaStatus> {
+        const record = await this.ensureUser(user);
+        const limits = await this.getUserLimits(user.id, record.effectiveTier, command);
+
+        const rows = await this.db.query<UsageRow>(
+            `SELECT period, count FROM usage_counters
+             WHERE user_id = $1 AND command = $2
+               AND ((period = 'day' AND period_start = $3) OR (period = 'month' AND period_start = $4))`,
+            [user.id, command, periodStart(now, "day"), periodStart(now, "month")]
+        );
+
+        return this.toStatus(record.effectiveTier, limits, rows, now);
+    }
+
+    /**
+     * Throw QuotaExceededError when the user cannot run the command right now
+     */
+    async assertQuota(user: DiscordUserLike, command: string): Promise<QuotaStatus> {
+        const status = await this.checkQuota(user, command);
+        if (!status.allowed) {
+            throw new QuotaExceededError(command, status);
+        }
+        return status;
+    }
+
+    /**
+     * Count one use of a command in the current day and month, or throw QuotaExceededError when none is left
+     * The counters are locked while checked, so concurrent calls cannot overshoot the quota
+     * Give the use back with `releaseUsage()` if the command then fails
+     * @returns Usage including this use, `allowed` tells whether another one fits
+     */
+    async reserveUsage(user: DiscordUserLike, command: string, now: Date = new Date()): Promise<QuotaStatus> {
+        const params = [user.id, command, periodStart(now, "day"), periodStart(now, "month")];
+
+        const { status, reserved } = await this.db.transaction(async tx => {
+            const record = await this.ensureUser(user, tx);
+            const limits = await this.getUserLimits(user.id, record.effectiveTier, command, tx);
+
+            await tx.query(
+                `INSERT INTO usage_counters (user_id, command, period, period_start, count)
+                 VALUES ($1, $2, 'day', $3, 0), ($1, $2, 'month', $4, 0)
+                 ON CONFLICT (user_id, command, period, period_start) DO NOTHING`,
+                params
+            );
+            const rows = await tx.query<UsageRow>(
+                `SELECT period, count FROM usage_counters
+                 WHERE user_id = $1 AND command = $2
+                   AND ((period = 'day' AND period_start = $3) OR (period = 'month' AND period_start = $4))
+                 FOR UPDATE`,
+                params
+            );
+
+            const current = this.toStatus(record.effectiveTier, limits, rows, now);
+            if (!current.allowed) {
+                return { status: current, reserved: false };
+            }
+
+            const updated = await tx.query<UsageRow>(
+                `UPDATE usage_counters SET count = count + 1
+                 WHERE user_id = $1 AND command = $2
+                   AND ((period = 'day' AND period_start = $3) OR (period = 'month' AND period_start = $4))
+                 RETURNING period, count`,
+                params
+            );
+            return { status: this.toStatus(record.effectiveTier, limits, updated, now), reserved: true };
+        });
+
+        if (!reserved) {
+            throw new QuotaExceededError(command, status);
+        }
+        return status;
+    }
+
+    /**
+     * Give back a use taken by `reserveUsage()`
+     * Failures are logged and swallowed, they only cost the user one use
+     * @param reservedAt The `now` the use was reserved with, so it is returned to the same day and month
+     */
+    async releaseUsage(userId: string, command: string, reservedAt: Date): Promise<void> {
+        try {
+            await this.db.query(
+                `UPDATE usage_counters SET count = GREATEST(count - 1, 0)
+                 WHERE user_id = $1 AND command = $2
+                   AND ((period = 'day' AND period_start = $3) OR (period = 'month' AND period_start = $4))`,
+                [userId, command, periodStart(reservedAt, "day"), periodStart(reservedAt, "month")]
+            );
+        } catch (error) {
+            this.logger.warn(`Failed to release /${command} usage of ${userId}:`, error);
+        }
+    }
+
+    isOwner(userId: string): boolean {
+        return this.ownerIds.has(userId);
+    }
+
+    private toStatus(tier: UserTier, limits: QuotaLimits, rows: UsageRow[], now: Date): QuotaStatus {
+        const used = (period: QuotaPeriod) => rows.find(row => row.period === period)?.count ?? 0;
+
+        const daily: QuotaUsage = { used: used("day"), limit: limits.daily, resetsAt: periodEnd(now, "day") };
+        const monthly: QuotaUsage = { used: used("month"), limit: limits.monthly, resetsAt: periodEnd(now, "month") };
+        const isExhausted = (usage: QuotaUsage) => usage.limit !== null && usage.used >= usage.limit;
+
+        // Report the month when both are used up since it resets last
+        const exceeded: QuotaPeriod | undefined = isExhausted(monthly) ? "month" : isExhausted(daily) ? "day" : undefined;
+
+        return {
+            allowed: exceeded === undefined,
+            tier,
+            daily,
+            monthly,
+            ...(exceeded && { exceeded }),
+        };
+    }
+
+    private toRecord(row: UserRow): UserRecord {
+        return {
+            id: row.id,
+            username: row.username,
+            tier: row.tier,
+            effectiveTier: this.resolveTier(row),
+            tierExpiresAt: row.tier_expires_at,
+            createdAt: row.created_at,
+        };
+    }
+
+    /**
+     * Owners from config always win, expired tiers fall back to free
+     */
+    private resolveTier(row: UserRow): UserTier {
+        if (this.ownerIds.has(row.id)) return "owner";
+        if (row.tier_expires_at && row.tier_expires_at.getTime() <= Date.now()) return "free";
+        return row.tier;
+    }
+}
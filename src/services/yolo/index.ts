@@ -2,5 +2,5 @@ export { YOLOModelService } from "./yolo.service.js";
 export { YOLOPreprocessor } from "./yolo.preprocessor.js";
 export { YOLODecoder } from "./yolo.decoder.js";
 export type { YOLOModelConfig } from "./yolo.service.js";
-export type { YOLOPreprocessConfig } from "./yolo.preprocessor.js";
-export type { YOLODecoderConfig, BoundingBox } from "./yolo.decoder.js";
+export type { YOLOPreprocessConfig, YOLOResizeMode } from "./yolo.preprocessor.js";
+export type { YOLODecoderConfig, YOLOOutputFormat, BoundingBox } from "./yolo.decoder.js";
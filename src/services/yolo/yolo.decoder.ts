@@ -1,7 +1,9 @@
-import { BaseDecoder, type DecodedResult, type DecoderConfig } from "@/services/interfaces/decoder.interface.js";
+import { BaseDecoder, type DecodedResult, type DecoderConfig, type TensorSignature } from "@/services/interfaces/decoder.interface.js";
+import type { ImageTransform } from "@/services/interfaces/preprocessor.interface.js";
 
 /**
  * Bounding box for object detection
+ * `x`/`y` is the top-left corner in original image coordinates
  */
 export interface BoundingBox {
     x: number;
@@ -9,9 +11,18 @@ export interface BoundingBox {
     width: number;
     height: number;
     class: string;
+    classIndex: number;
     confidence: number;
 }
 
+/**
+ * Output tensor layout
+ * - v5: `[N, 5 + C]` rows of cx, cy, w, h, objectness, class scores
+ * - v8: `[4 + C, N]` columns of cx, cy, w, h, class scores (no objectness)
+ * - auto: inferred from the output shape
+ */
+export type YOLOOutputFormat = "v5" | "v8" | "auto";
+
 /**
  * YOLO-specific decoder configuration
  */
@@ -20,77 +31,289 @@ export interface YOLODecoderConfig extends DecoderConfig {
     classNames: string[];
     iouThreshold?: number;
     minConfidence?: number;
+    format?: YOLOOutputFormat;
+    /**
+     * Maximum number of boxes returned after NMS
+     */
+    maxDetections?: number;
+    /**
+     * Shape of the output tensor, used to detect the format
+     */
+    outputShape?: readonly number[];
+    /**
+     * Preprocessing transform used to map boxes back to the original image
+     */
+    transform?: ImageTransform;
+}
+
+/**
+ * Candidate box in model input coordinates (corner form)
+ */
+interface Candidate {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    classIndex: number;
+    confidence: number;
+    index: number;
 }
 
 /**
  * YOLO output decoder
- * Decodes bounding boxes and applies NMS
+ * Decodes bounding boxes and applies class-wise NMS
  */
 export class YOLODecoder extends BaseDecoder<Float32Array, BoundingBox, YOLODecoderConfig> {
     constructor(config: YOLODecoderConfig) {
         super({
             iouThreshold: 0.45,
             minConfidence: 0.25,
+            format: "auto",
+            maxDetections: 300,
             ...config,
         } as YOLODecoderConfig);
     }
 
-    public decode(array: Float32Array, config?: YOLODecoderConfig): DecodedResult<BoundingBox>[] {
+    public decode(array: Float32Array, config?: Partial<YOLODecoderConfig>): DecodedResult<BoundingBox>[] {
         const finalConfig = { ...this.defaultConfig, ...config };
-        const results: DecodedResult<BoundingBox>[] = [];
+        const { numClasses, iouThreshold = 0.45, maxDetections = 300 } = finalConfig;
+
+        if (numClasses <= 0) {
+            throw new Error("numClasses must be greater than 0");
+        }
+
+        const format = this.resolveFormat(array.length, finalConfig);
+        const candidates = format === "v5"
+            ? this.readV5(array, finalConfig)
+            : this.readV8(array, finalConfig);
+
+        return this.nonMaxSuppression(candidates, iouThreshold)
+            .slice(0, maxDetections)
+            .map(candidate => this.toResult(candidate, finalConfig));
+    }
+
+    public toString(results: DecodedResult<BoundingBox>[]): string {
+        return results
+            .map(r => `${r.value.class}: ${(r.confidence * 100).toFixed(2)}%`)
+            .join(", ");
+    }
+
+    public validateOutput(output: TensorSignature): string[] {
+        const problems = super.validateOutput(output);
+        const { numClasses, format = "auto" } = this.defaultConfig;
+        const rows = output.shape[output.shape.length - 2];
+        const cols = output.shape[output.shape.length - 1];
+
+        if (output.shape.length < 2) {
+            problems.push(`output "${output.name}" has rank ${output.shape.length}, expected at least 2`);
+            return problems;
+        }
+
+        const fitsV5 = typeof cols !== "number" || cols === 5 + numClasses;
+        const fitsV8 = typeof rows !== "number" || rows === 4 + numClasses;
+        const fits = format === "v5" ? fitsV5 : format === "v8" ? fitsV8 : fitsV5 || fitsV8;
+
+        if (!fits) {
+            problems.push(
+                `output "${output.name}" shape [${output.shape.join(", ")}] does not match ${format} layout for ${numClasses} classes`
+            );
+        }
+
+        return problems;
+    }
+
+    /**
+     * Determine the output layout from config or tensor shape
+     */
+    private resolveFormat(length: number, config: YOLODecoderConfig): "v5" | "v8" {
+        const { numClasses, format = "auto", outputShape } = config;
+        const v5Stride = 5 + numClasses;
+        const v8Stride = 4 + numClasses;
+
+        if (format !== "auto") {
+            const stride = format === "v5" ? v5Stride : v8Stride;
+            if (length % stride !== 0) {
+                throw new Error(`Output length (${length}) is not compatible with ${format} layout for ${numClasses} classes`);
+            }
+            return format;
+        }
+
+        if (outputShape && outputShape.length >= 2) {
+            const rows = outputShape[outputShape.length - 2];
+            const cols = outputShape[outputShape.length - 1];
+
+            if (cols === v5Stride) return "v5";
+            if (rows === v8Stride) return "v8";
+
+            throw new Error(
+                `Cannot infer YOLO layout from output shape [${outputShape.join(", ")}] for ${numClasses} classes`
+            );
+        }
+
+        if (length % v5Stride === 0) return "v5";
+        if (length % v8Stride === 0) return "v8";
 
-        // This is a simplified example - actual YOLO decoding is more complex
-        // You would implement proper box decoding and NMS here
+        throw new Error(`Output length (${length}) does not match any YOLO layout for ${numClasses} classes`);
+    }
 
-        // Example structure
-        const numBoxes = array.length / (5 + finalConfig.numClasses);
+    /**
+     * Read `[N, 5 + C]` rows with objectness
+     */
+    private readV5(array: Float32Array, config: YOLODecoderConfig): Candidate[] {
+        const { numClasses, minConfidence = 0.25 } = config;
+        const stride = 5 + numClasses;
+        const numBoxes = array.length / stride;
+        const candidates: Candidate[] = [];
 
         for (let i = 0; i < numBoxes; i++) {
-            const offset = i * (5 + finalConfig.numClasses);
-            const x = array[offset]!;
-            const y = array[offset + 1]!;
-            const w = array[offset + 2]!;
-            const h = array[offset + 3]!;
+            const offset = i * stride;
             const objectness = array[offset + 4]!;
 
-            if (objectness < finalConfig.minConfidence!) continue;
+            if (objectness < minConfidence) continue;
 
-            // Find best class
-            let maxClassProb = -Infinity;
-            let maxClassIdx = -1;
+            const { classIndex, score } = this.bestClass(c => array[offset + 5 + c]!, numClasses);
+            const confidence = objectness * score;
 
-            for (let c = 0; c < finalConfig.numClasses; c++) {
-                const prob = array[offset + 5 + c]!;
-                if (prob > maxClassProb) {
-                    maxClassProb = prob;
-                    maxClassIdx = c;
-                }
+            if (confidence >= minConfidence) {
+                candidates.push(this.toCandidate(
+                    array[offset]!,
+                    array[offset + 1]!,
+                    array[offset + 2]!,
+                    array[offset + 3]!,
+                    classIndex,
+                    confidence,
+                    i
+                ));
             }
+        }
 
-            const confidence = objectness * maxClassProb;
-
-            if (confidence >= finalConfig.minConfidence!) {
-                results.push({
-                    value: {
-                        x,
-                        y,
-                        width: w,
-                        height: h,
-                        class: finalConfig.classNames[maxClassIdx] ?? `class_${maxClassIdx}`,
-                        confidence,
-                    },
-                    confidence,
-                    position: i,
-                });
+        return candidates;
+    }
+
+    /**
+     * Read transposed `[4 + C, N]` columns without objectness
+     */
+    private readV8(array: Float32Array, config: YOLODecoderConfig): Candidate[] {
+        const { numClasses, minConfidence = 0.25 } = config;
+        const numBoxes = array.length / (4 + numClasses);
+        const candidates: Candidate[] = [];
+
+        for (let i = 0; i < numBoxes; i++) {
+            const { classIndex, score } = this.bestClass(c => array[(4 + c) * numBoxes + i]!, numClasses);
+
+            if (score >= minConfidence) {
+                candidates.push(this.toCandidate(
+                    array[i]!,
+                    array[numBoxes + i]!,
+                    array[2 * numBoxes + i]!,
+                    array[3 * numBoxes + i]!,
+                    classIndex,
+                    score,
+                    i
+                ));
             }
         }
 
-        return results;
+        return candidates;
     }
 
-    public toString(results: DecodedResult<BoundingBox>[]): string {
-        return results
-            .map(r => `${r.value.class}: ${(r.confidence * 100).toFixed(2)}%`)
-            .join(", ");
+    private bestClass(scoreAt: (c: number) => number, numClasses: number): { classIndex: number; score: number } {
+        let score = -Infinity;
+        let classIndex = -1;
+
+        for (let c = 0; c < numClasses; c++) {
+            const value = scoreAt(c);
+            if (value > score) {
+                score = value;
+                classIndex = c;
+            }
+        }
+
+        return { classIndex, score };
+    }
+
+    private toCandidate(
+        cx: number,
+        cy: number,
+        w: number,
+        h: number,
+        classIndex: number,
+        confidence: number,
+        index: number
+    ): Candidate {
+        return {
+            x1: cx - w / 2,
+            y1: cy - h / 2,
+            x2: cx + w / 2,
+            y2: cy + h / 2,
+            classIndex,
+            confidence,
+            index,
+        };
+    }
+
+    /**
+     * Greedy NMS performed independently for each class
+     */
+    private nonMaxSuppression(candidates: Candidate[], iouThreshold: number): Candidate[] {
+        const sorted = [...candidates].sort((a, b) => b.confidence - a.confidence);
+        const kept: Candidate[] = [];
+
+        for (const candidate of sorted) {
+            const overlaps = kept.some(other =>
+                other.classIndex === candidate.classIndex &&
+                this.iou(candidate, other) > iouThreshold
+            );
+
+            if (!overlaps) {
+                kept.push(candidate);
+            }
+        }
+
+        return kept;
+    }
+
+    private iou(a: Candidate, b: Candidate): number {
+        const interWidth = Math.max(0, Math.min(a.x2, b.x2) - Math.max(a.x1, b.x1));
+        const interHeight = Math.max(0, Math.min(a.y2, b.y2) - Math.max(a.y1, b.y1));
+        const intersection = interWidth * interHeight;
+
+        const areaA = (a.x2 - a.x1) * (a.y2 - a.y1);
+        const areaB = (b.x2 - b.x1) * (b.y2 - b.y1);
+        const union = areaA + areaB - intersection;
+
+        return union > 0 ? intersection / union : 0;
+    }
+
+    /**
+     * Map a candidate back to original image coordinates
+     */
+    private toResult(candidate: Candidate, config: YOLODecoderConfig): DecodedResult<BoundingBox> {
+        let { x1, y1, x2, y2 } = candidate;
+        const { transform } = config;
+
+        if (transform) {
+            const clampX = (v: number) => Math.min(Math.max(v, 0), transform.originalWidth);
+            const clampY = (v: number) => Math.min(Math.max(v, 0), transform.originalHeight);
+
+            x1 = clampX((x1 - transform.padX) / transform.scaleX);
+            x2 = clampX((x2 - transform.padX) / transform.scaleX);
+            y1 = clampY((y1 - transform.padY) / transform.scaleY);
+            y2 = clampY((y2 - transform.padY) / transform.scaleY);
+        }
+
+        return {
+            value: {
+                x: x1,
+                y: y1,
+                width: x2 - x1,
+                height: y2 - y1,
+                class: config.classNames[candidate.classIndex] ?? `class_${candidate.classIndex}`,
+                classIndex: candidate.classIndex,
+                confidence: candidate.confidence,
+            },
+            confidence: candidate.confidence,
+            position: candidate.index,
+        };
     }
 }
@@ -1,8 +1,15 @@
-import sharp from "sharp";
-import { BasePreprocessor, type PreprocessConfig, type PreprocessResult } from "@/services/interfaces/preprocessor.interface.js";
-import { container } from "@/container/container.js";
-import { TOKENS } from "@/container/tokens.js";
+import sharp, { type Sharp } from "sharp";
+import { BasePreprocessor, type ImageTransform, type PreprocessConfig, type PreprocessResult } from "@/services/interfaces/preprocessor.interface.js";
+import { InvalidInputError, describeError } from "@/errors/app.errors.js";
 import type { LoggerService } from "@/services/logger.service.js";
+import type { InputLayout } from "@/services/interfaces/model.interface.js";
+
+/**
+ * How the image is fitted into the model input
+ * - fill: stretch to the target size, ignoring aspect ratio
+ * - letterbox: scale to fit keeping aspect ratio, pad the remainder
+ */
+export type YOLOResizeMode = "fill" | "letterbox";
 
 /**
  * YOLO-specific preprocessing configuration
@@ -11,6 +18,15 @@ export interface YOLOPreprocessConfig extends PreprocessConfig {
     normalize: boolean;
     meanValues?: [number, number, number];
     stdValues?: [number, number, number];
+    resizeMode?: YOLOResizeMode;
+    /**
+     * Padding color used in letterbox mode
+     */
+    padColor?: { r: number; g: number; b: number };
+    /**
+     * Output order: NCHW emits planar CHW data, NHWC interleaved HWC data
+     */
+    layout?: InputLayout;
 }
 
 /**
@@ -25,10 +41,12 @@ export class YOLOPreprocessor extends BasePreprocessor<YOLOPreprocessConfig> {
         normalize: true,
         meanValues: [0.485, 0.456, 0.406],
         stdValues: [0.229, 0.224, 0.225],
+        resizeMode: "letterbox",
+        padColor: { r: 114, g: 114, b: 114 },
+        layout: "NCHW",
     };
 
-    constructor(config?: Partial<YOLOPreprocessConfig>) {
-        const logger = container.resolve<LoggerService>(TOKENS.Logger);
+    constructor(config: Partial<YOLOPreprocessConfig>, logger: LoggerService) {
         super(
             config as YOLOPreprocessConfig,
             YOLOPreprocessor.DEFAULTS,
@@ -38,17 +56,21 @@ export class YOLOPreprocessor extends BasePreprocessor<YOLOPreprocessConfig> {
 
     public async preprocess(imageBuffer: Buffer): Promise<PreprocessResult> {
         try {
-            // Resize and convert to RGB
-            const { data, info } = await sharp(imageBuffer)
-                .resize(this.config.width, this.config.height, {
-                    fit: "fill",
-                })
-                .removeAlpha()
+            const metadata = await sharp(imageBuffer).metadata();
+            if (!metadata.width || !metadata.height) {
+                throw new Error("Unable to read image dimensions");
+            }
+
+            const { image, transform } = this.config.resizeMode === "letterbox"
+                ? this.letterbox(imageBuffer, metadata.width, metadata.height)
+                : this.fill(imageBuffer, metadata.width, metadata.height);
+
+            const { data, info } = await image
                 .raw()
                 .toBuffer({ resolveWithObject: true });
 
             // Convert to Float32Array and normalize
-            const normalized = this.normalize(data, info.channels);
+            const normalized = this.normalize(data, info.width * info.height, info.channels);
 
             return {
                 data: normalized,
@@ -58,33 +80,99 @@ export class YOLOPreprocessor extends BasePreprocessor<YOLOPreprocessConfig> {
                 metadata: {
                     originalFormat: "RGB",
                     normalized: this.config.normalize,
+                    resizeMode: this.config.resizeMode,
+                    layout: this.config.layout,
+                    transform,
                 },
             };
         } catch (error) {
-            throw new Error(
-                `YOLO preprocessing failed: ${error instanceof Error ? error.message : String(error)}`
+            throw new InvalidInputError(
+                `YOLO preprocessing failed: ${describeError(error)}`,
+                "The image could not be read, please send a valid PNG, JPEG or WebP image.",
+                { cause: error }
             );
         }
     }
 
+    /**
+     * Stretch image to the target size
+     */
+    private fill(imageBuffer: Buffer, width: number, height: number): { image: Sharp; transform: ImageTransform } {
+        const image = sharp(imageBuffer)
+            .resize(this.config.width, this.config.height, {
+                fit: "fill",
+            })
+            .removeAlpha();
+
+        return {
+            image,
+            transform: {
+                scaleX: this.config.width / width,
+                scaleY: this.config.height / height,
+                padX: 0,
+                padY: 0,
+                originalWidth: width,
+                originalHeight: height,
+            },
+        };
+    }
+
+    /**
+     * Resize keeping aspect ratio and pad to the target size
+     */
+    private letterbox(imageBuffer: Buffer, width: number, height: number): { image: Sharp; transform: ImageTransform } {
+        const scale = Math.min(this.config.width / width, this.config.height / height);
+        const resizedWidth = Math.max(1, Math.round(width * scale));
+        const resizedHeight = Math.max(1, Math.round(height * scale));
+
+        const padX = Math.floor((this.config.width - resizedWidth) / 2);
+        const padY = Math.floor((this.config.height - resizedHeight) / 2);
+
+        this.logger?.debug(`Letterbox: scale=${scale.toFixed(4)}, resized=${resizedWidth}x${resizedHeight}, pad=${padX},${padY}`);
+
+        const image = sharp(imageBuffer)
+            .resize(resizedWidth, resizedHeight, {
+                fit: "fill",
+            })
+            .removeAlpha()
+            .extend({
+                left: padX,
+                top: padY,
+                right: this.config.width - resizedWidth - padX,
+                bottom: this.config.height - resizedHeight - padY,
+                background: this.config.padColor,
+            });
+
+        return {
+            image,
+            transform: {
+                scaleX: resizedWidth / width,
+                scaleY: resizedHeight / height,
+                padX,
+                padY,
+                originalWidth: width,
+                originalHeight: height,
+            },
+        };
+    }
+
     /**
      * Normalize pixel values using mean and std
+     * Interleaved HWC input is written as CHW when the layout is NCHW
      */
-    private normalize(buffer: Buffer, channels: number): Float32Array {
-        const size = buffer.length;
-        const normalized = new Float32Array(size);
-
-        for (let i = 0; i < size; i++) {
-            const channelIdx = i % channels;
-            const pixelValue = buffer[i]! / 255.0; // Scale to [0, 1]
-
-            if (this.config.normalize) {
-                // Normalize using mean and std
-                normalized[i] =
-                    (pixelValue - this.config.meanValues[channelIdx]!) /
-                    this.config.stdValues[channelIdx]!;
-            } else {
-                normalized[i] = pixelValue;
+    private normalize(buffer: Buffer, pixels: number, channels: number): Float32Array {
+        const normalized = new Float32Array(pixels * channels);
+        const planar = this.config.layout === "NCHW";
+
+        for (let p = 0; p < pixels; p++) {
+            for (let c = 0; c < channels; c++) {
+                const pixelValue = buffer[p * channels + c]! / 255.0; // Scale to [0, 1]
+                const target = planar ? c * pixels + p : p * channels + c;
+
+                normalized[target] = this.config.normalize
+                    // Normalize using mean and std
+                    ? (pixelValue - this.config.meanValues[c]!) / this.config.stdValues[c]!
+                    : pixelValue;
             }
         }
 
@@ -1,11 +1,10 @@
-import path from "node:path";
-import { InferenceSession, Tensor } from "onnxruntime-node";
-import { BaseONNXModelService, type ModelConfig, type PredictionResult } from "@/services/interfaces/model.interface.js";
+import { BaseONNXModelService, type DebugImage, type ModelComponents, type ModelConfig, type PredictOptions, type PredictionResult } from "@/services/interfaces/model.interface.js";
 import { YOLOPreprocessor, type YOLOPreprocessConfig } from "./yolo.preprocessor.js";
 import { YOLODecoder, type YOLODecoderConfig, type BoundingBox } from "./yolo.decoder.js";
-import { container } from "@/container/container.js";
-import { TOKENS } from "@/container/tokens.js";
-import type { LoggerService } from "@/services/logger.service.js";
+import { AppError, InferenceError, ModelUnavailableError, describeError } from "@/errors/app.errors.js";
+import type { PreprocessResult } from "@/services/interfaces/preprocessor.interface.js";
+import type { DecodedResult } from "@/services/interfaces/decoder.interface.js";
+import { drawDetections } from "@/services/debug/debug.renderer.js";
 
 /**
  * YOLO model configuration
@@ -19,90 +18,52 @@ export interface YOLOModelConfig extends ModelConfig {
  * YOLO object detection service
  */
 export class YOLOModelService extends BaseONNXModelService<Buffer, BoundingBox, YOLOModelConfig> {
-    private static instance: YOLOModelService | null = null;
+    constructor(config: YOLOModelConfig, components: ModelComponents<BoundingBox>) {
+        const preprocessor = components.preprocessor ?? new YOLOPreprocessor(config.preprocessor, components.logger);
+        const decoder = components.decoder ?? new YOLODecoder(config.decoder);
+        const logger = components.logger.child({ model: config.id });
 
-    private constructor(config?: Partial<YOLOModelConfig>) {
-        const defaultConfig: YOLOModelConfig = {
-            modelPath: path.resolve(process.cwd(), "src/models/yolo.onnx"),
-            preprocessor: {
-                width: 640,
-                height: 640,
-                channels: 3,
-                normalize: true,
-            },
-            decoder: {
-                numClasses: 80,
-                classNames: [], // Would be loaded from COCO names
-                minConfidence: 0.25,
-            },
-        };
-
-        const finalConfig = {
-            ...defaultConfig,
-            ...config,
-            preprocessor: { ...defaultConfig.preprocessor, ...config?.preprocessor },
-            decoder: { ...defaultConfig.decoder, ...config?.decoder },
-        };
-
-        const preprocessor = new YOLOPreprocessor(finalConfig.preprocessor);
-        const decoder = new YOLODecoder(finalConfig.decoder);
-        const logger = container.resolve<LoggerService>(TOKENS.Logger);
-
-        super(finalConfig, preprocessor, decoder, logger);
-    }
-
-    public static getInstance(config?: Partial<YOLOModelConfig>): YOLOModelService {
-        if (!YOLOModelService.instance) {
-            YOLOModelService.instance = new YOLOModelService(config);
-        }
-        return YOLOModelService.instance;
+        super(config, preprocessor, decoder, logger, components.sessionFactory, components.cache);
     }
 
     protected async loadModel(): Promise<void> {
         try {
-            this.session = await InferenceSession.create(this.config.modelPath);
+            await super.loadModel();
             this.logger.info("✓ YOLO model loaded successfully");
         } catch (error) {
             this.logger.error("Failed to load YOLO model:", error);
-            throw new Error("Failed to initialize YOLO model");
+            throw new ModelUnavailableError(`Failed to initialize YOLO model: ${describeError(error)}`, {
+                cause: error,
+                details: { model: this.config.id },
+            });
         }
     }
 
-    public async predict(imageBuffer: Buffer): Promise<PredictionResult<BoundingBox>> {
+    public async predict(imageBuffer: Buffer, options: PredictOptions = {}): Promise<PredictionResult<BoundingBox>> {
+        return this.withCache(imageBuffer, options, () => this.runPrediction(imageBuffer, options));
+    }
+
+    /**
+     * Preprocess, run and decode a single image
+     */
+    private async runPrediction(imageBuffer: Buffer, options: PredictOptions): Promise<PredictionResult<BoundingBox>> {
         const startTime = performance.now();
 
         try {
             await this.initialize();
 
-            if (!this.session) {
-                throw new Error("Session not initialized");
-            }
-
             // Preprocess image
             const preprocessed = await this.preprocessor.preprocess(imageBuffer);
 
-            // Create input tensor (NCHW format for YOLO)
-            const inputTensor = new Tensor("float32", preprocessed.data, [
-                1,
-                preprocessed.channels,
-                preprocessed.height,
-                preprocessed.width,
-            ]);
-
             // Run inference
-            const outputs = await this.session.run({
-                [this.session.inputNames[0]!]: inputTensor,
-            });
-
-            const outputTensor = outputs[this.session.outputNames[0]!];
-            if (!outputTensor) {
-                throw new Error("No output from model");
-            }
+            const output = await this.runInference(preprocessed);
+            const raw = output.data;
 
-            const raw = outputTensor.data as Float32Array;
-
-            // Decode results
-            const results = this.decoder.decode(raw);
+            // Decode results, mapping boxes back to the original image
+            const results = this.decoder.decode(raw, {
+                outputShape: output.dims,
+                transform: preprocessed.metadata?.transform,
+            });
 
             const inferenceTime = performance.now() - startTime;
 
@@ -110,21 +71,31 @@ export class YOLOModelService extends BaseONNXModelService<Buffer, BoundingBox,
                 results,
                 raw,
                 inferenceTime,
+                model: output.model,
+                ...(options.debug && { debug: await this.renderDebug(imageBuffer, preprocessed, results) }),
             };
         } catch (error) {
+            if (error instanceof AppError) throw error;
+
             this.logger.error("Error during YOLO inference:", error);
-            throw new Error(
-                `Failed to run YOLO detection: ${error instanceof Error ? error.message : String(error)}`
-            );
+            throw new InferenceError(`Failed to run YOLO detection: ${describeError(error)}`, {
+                cause: error,
+                details: { model: this.config.id, version: this.active?.version.hash },
+            });
         }
     }
 
-    public async dispose(): Promise<void> {
-        await super.dispose();
-        YOLOModelService.instance = null;
-    }
-
-    public static reset(): void {
-        YOLOModelService.instance = null;
+    /**
+     * Add the decoded boxes drawn onto the original image
+     */
+    protected override async renderDebug(
+        imageBuffer: Buffer,
+        preprocessed: PreprocessResult,
+        results: DecodedResult<BoundingBox>[]
+    ): Promise<DebugImage[]> {
+        const images = await super.renderDebug(imageBuffer, preprocessed, results);
+        const boxes = await drawDetections(imageBuffer, results.map(result => result.value));
+
+        return [...images, { name: `${this.config.id}-detections.png`, image: boxes }];
     }
 }
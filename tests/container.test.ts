@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { Container } from "@/container/container.js";
+import { createToken } from "@/container/tokens.js";
+
+const A = createToken<{ name: string }>("A");
+const B = createToken<{ name: string }>("B");
+const C = createToken<{ name: string }>("C");
+
+describe("Container lifetimes", () => {
+    it("builds a singleton once and shares it with scopes", () => {
+        const container = new Container();
+        let built = 0;
+        container.registerFactory(A, () => ({ name: `a${++built}` }));
+
+        const instance = container.resolve(A);
+
+        expect(container.resolve(A)).toBe(instance);
+        expect(container.createScope().resolve(A)).toBe(instance);
+        expect(built).toBe(1);
+    });
+
+    it("builds a transient on every resolve", () => {
+        const container = new Container();
+        container.registerFactory(A, () => ({ name: "a" }), { lifetime: "transient" });
+
+        expect(container.resolve(A)).not.toBe(container.resolve(A));
+    });
+
+    it("builds a scoped service once per scope", () => {
+        const container = new Container();
+        container.registerFactory(A, () => ({ name: "a" }), { lifetime: "scoped" });
+        const first = container.createScope();
+        const second = container.createScope();
+
+        expect(first.resolve(A)).toBe(first.resolve(A));
+        expect(first.resolve(A)).not.toBe(second.resolve(A));
+        expect(() => container.resolve(A)).toThrow("A is scoped, resolve it from a scope created with createScope()");
+    });
+
+    it("only registers on the root container", () => {
+        const scope = new Container().createScope();
+
+        expect(() => scope.register(A, { name: "a" })).toThrow("Cannot register on a scope, use the root container");
+    });
+
+    it("fails on unregistered tokens", () => {
+        expect(() => new Container().resolve(A)).toThrow("No provider registered for A");
+    });
+});
+
+describe("Container dependencies", () => {
+    it("reports the cycle when services depend on each other", () => {
+        const container = new Container();
+        container.registerFactory(A, c => ({ name: c.resolve(B).name }));
+        container.registerFactory(B, c => ({ name: c.resolve(C).name }));
+        container.registerFactory(C, c => ({ name: c.resolve(A).name }));
+
+        expect(() => container.resolve(A)).toThrow("Circular dependency: A -> B -> C -> A");
+    });
+
+    it("can resolve again after a failed factory", () => {
+        const container = new Container();
+        let fail = true;
+        container.registerFactory(A, () => {
+            if (fail) throw new Error("not yet");
+            return { name: "a" };
+        });
+
+        expect(() => container.resolve(A)).toThrow("not yet");
+        fail = false;
+        expect(container.resolve(A)).toEqual({ name: "a" });
+    });
+
+    it("initializes dependencies before their dependents whatever the registration order", async () => {
+        const container = new Container();
+        const order: string[] = [];
+        container.registerFactory(A, c => ({ name: `a(${c.resolve(B).name})` }), { init: () => void order.push("A") });
+        container.registerFactory(B, () => ({ name: "b" }), { init: () => void order.push("B") });
+
+        await container.initialize();
+
+        expect(order).toEqual(["B", "A"]);
+        expect(container.resolve(A).name).toBe("a(b)");
+    });
+
+    it("refuses to hand out a service before it is initialized", () => {
+        const container = new Container();
+        container.registerFactory(A, () => ({ name: "a" }), { init: () => undefined });
+
+        expect(() => container.resolve(A)).toThrow("A is not initialized yet, await container.initialize() first");
+    });
+
+    it("only lets singletons have initializers", () => {
+        const container = new Container();
+
+        expect(() => container.registerFactory(A, () => ({ name: "a" }), { lifetime: "scoped", init: () => undefined }))
+            .toThrow("A is scoped, only singletons can have an initializer");
+    });
+
+    it("disposes in reverse creation order and reports every failure", async () => {
+        const container = new Container();
+        const order: string[] = [];
+        container.register(C, { name: "c" }, { dispose: () => void order.push("C") });
+        container.registerFactory(B, () => ({ name: "b" }), {
+            dispose: () => {
+                order.push("B");
+                throw new Error("busy");
+            },
+        });
+        container.registerFactory(A, c => ({ name: c.resolve(B).name }), { dispose: () => void order.push("A") });
+
+        container.resolve(A);
+        const error = await container.disposeAll().catch(error => error);
+
+        expect(order).toEqual(["A", "B", "C"]);
+        expect(error).toBeInstanceOf(AggregateError);
+        expect(error.errors.map((cause: Error) => cause.message)).toEqual(["Failed to dispose B"]);
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { CTCDecoder } from "@/services/ctc/index.js";
+import type { DecodedResult } from "@/services/interfaces/decoder.interface.js";
+
+/**
+ * Class 0 is the blank, then one class per symbol
+ */
+const decoder = new CTCDecoder({ alphabet: ["a", "b"], blankIndex: 0 });
+
+const frames = (...rows: number[][]): Float32Array => Float32Array.from(rows.flat());
+
+const text = (results: DecodedResult<string>[]): string => results.map(result => result.value).join("");
+
+const BLANK = [0.9, 0.05, 0.05];
+const A = [0.05, 0.9, 0.05];
+const B = [0.05, 0.05, 0.9];
+
+describe("CTCDecoder", () => {
+    it("collapses repeats and drops blanks on the best path", () => {
+        expect(text(decoder.decode(frames(A, A, BLANK, B, B, BLANK)))).toBe("ab");
+    });
+
+    it("keeps repeated symbols separated by a blank", () => {
+        expect(text(decoder.decode(frames(A, BLANK, A)))).toBe("aa");
+        expect(text(decoder.decode(frames(A, BLANK, A), { strategy: "beam" }))).toBe("aa");
+    });
+
+    it("finds the most probable labelling where the best path misses it", () => {
+        // The single best path is all blanks (0.36), but the paths spelling "a" add up to 0.64
+        const output = frames([0.6, 0.4, 0], [0.6, 0.4, 0]);
+
+        expect(text(decoder.decode(output))).toBe("");
+        expect(text(decoder.decode(output, { strategy: "beam" }))).toBe("a");
+    });
+
+    it("matches greedy decoding when the beam is one wide", () => {
+        const output = frames(A, BLANK, B, B, A);
+
+        expect(decoder.decode(output, { strategy: "beam", beamWidth: 1 }).map(result => result.value))
+            .toEqual(decoder.decode(output).map(result => result.value));
+    });
+
+    it("reports the timestep and confidence of each symbol", () => {
+        const [first, second] = decoder.decode(frames(BLANK, A, [0.02, 0.95, 0.03], BLANK, B));
+
+        expect(first).toMatchObject({ value: "a", position: 0, metadata: { timestep: 2 } });
+        expect(first!.confidence).toBeCloseTo(0.95);
+        expect(second).toMatchObject({ value: "b", position: 1, metadata: { timestep: 4 } });
+    });
+
+    it("accepts logits and log probabilities", () => {
+        const probabilities = [A, BLANK, B];
+        const logProbabilities = frames(...probabilities.map(row => row.map(Math.log)));
+        const logits = frames(...probabilities.map(row => row.map(value => Math.log(value) + 3)));
+
+        expect(text(decoder.decode(logProbabilities, { scores: "logProbabilities" }))).toBe("ab");
+        expect(text(decoder.decode(logits, { scores: "logits", strategy: "beam" }))).toBe("ab");
+    });
+
+    it("drops symbols below the confidence threshold", () => {
+        expect(text(decoder.decode(frames(A, BLANK, [0.3, 0.2, 0.5]), { minConfidence: 0.6 }))).toBe("a");
+    });
+
+    it("rejects outputs that do not match the charset", () => {
+        expect(() => decoder.decode(new Float32Array(4))).toThrow("must be divisible by number of classes (3)");
+        expect(() => decoder.decode(new Float32Array(0))).toThrow("cannot be empty");
+    });
+});
@@ -0,0 +1,41 @@
+import { fileURLToPath } from "node:url";
+import { DataType, newDb, type IMemoryDb } from "pg-mem";
+import { DatabaseService, Migrator, loadMigrations } from "@/services/database/index.js";
+import { LoggerService } from "@/services/logger.service.js";
+
+export const MIGRATIONS_DIR = fileURLToPath(new URL("../src/migrations", import.meta.url));
+
+export const createLogger = (): LoggerService => new LoggerService({ level: "silent" });
+
+export interface TestDatabase {
+    memory: IMemoryDb;
+    db: DatabaseService;
+}
+
+/**
+ * Database service backed by an in-memory pg-mem instance
+ * pg-mem runs statements one at a time, so advisory locks have nothing to serialize
+ */
+export const createTestDatabase = (logger: LoggerService = createLogger()): TestDatabase => {
+    // Re-running CREATE TABLE IF NOT EXISTS leaves the column defaults unread, which pg-mem reports by default
+    const memory = newDb({ noAstCoverageCheck: true });
+    memory.public.registerFunction({
+        name: "pg_advisory_xact_lock",
+        args: [DataType.integer],
+        returns: DataType.text,
+        implementation: () => "",
+        impure: true,
+    });
+
+    const { Pool } = memory.adapters.createPg();
+    return { memory, db: new DatabaseService({ connectionString: "pg-mem" }, logger, new Pool()) };
+};
+
+/**
+ * In-memory database with every migration of the build applied
+ */
+export const createMigratedDatabase = async (logger: LoggerService = createLogger()): Promise<TestDatabase> => {
+    const database = createTestDatabase(logger);
+    await new Migrator(database.db, logger).migrate(await loadMigrations(MIGRATIONS_DIR));
+    return database;
+};
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LoggerService } from "@/services/logger.service.js";
+
+const capture = (stream: NodeJS.WriteStream) => {
+    const write = vi.spyOn(stream, "write").mockImplementation(() => true);
+    return () => write.mock.calls.map(([line]) => JSON.parse(String(line)));
+};
+
+describe("LoggerService json format", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("writes one object per line with the logger's context", () => {
+        const lines = capture(process.stdout);
+
+        new LoggerService({ format: "json" }, { command: "solve" }).info("ran in", 12, "ms");
+
+        expect(lines()).toEqual([{ command: "solve", time: expect.any(String), level: "info", msg: "ran in 12 ms" }]);
+    });
+
+    it("does not let context overwrite the line's own fields", () => {
+        const lines = capture(process.stdout);
+
+        LoggerService.runWithContext({ level: "debug", msg: "spoofed" }, () => {
+            new LoggerService({ format: "json" }, { time: "yesterday" }).warn("real message");
+        });
+
+        expect(lines()).toEqual([{ time: expect.not.stringMatching("yesterday"), level: "warn", msg: "real message" }]);
+    });
+
+    it("serializes errors on stderr", () => {
+        const lines = capture(process.stderr);
+
+        new LoggerService({ format: "json" }).error("Failed:", new Error("boom"));
+
+        expect(lines()).toEqual([expect.objectContaining({ level: "error", msg: "Failed:", err: expect.objectContaining({ message: "boom" }) })]);
+    });
+});
@@ -0,0 +1,41 @@
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { validateManifest } from "@/services/manifest/index.js";
+
+const HUNTBOT_MANIFEST = fileURLToPath(new URL("../src/models/huntbot.manifest.json", import.meta.url));
+
+const manifest = (session: unknown) => ({
+    id: "test",
+    task: "classification",
+    version: "1",
+    model: "test.onnx",
+    input: { layout: "NCHW", width: 8, height: 8, channels: 3 },
+    preprocessor: { type: "pipeline" },
+    decoder: { type: "ctc" },
+    session,
+});
+
+describe("validateManifest session settings", () => {
+    it("keeps the validated settings", () => {
+        const { session } = validateManifest(manifest({ intraOpNumThreads: 2, graphOptimizationLevel: "all", warmup: false }), "/models/test.json");
+
+        expect(session).toEqual({ intraOpNumThreads: 2, graphOptimizationLevel: "all", warmup: false });
+    });
+
+    it("rejects settings it does not know", () => {
+        expect(() => validateManifest(manifest({ intraOpNumThreads: 1, executionProviders: ["cuda"] }), "/models/test.json"))
+            .toThrow(`"session.executionProviders" is not a known session setting`);
+    });
+
+    it("rejects settings of the wrong type", () => {
+        expect(() => validateManifest(manifest({ interOpNumThreads: -1, enableMemPattern: "yes" }), "/models/test.json"))
+            .toThrow(/"session.interOpNumThreads" must be a non-negative integer\n {2}- "session.enableMemPattern" must be a boolean/);
+    });
+
+    it("accepts the manifests shipped with the bot", async () => {
+        const raw = JSON.parse(await readFile(HUNTBOT_MANIFEST, "utf8"));
+
+        expect(validateManifest(raw, HUNTBOT_MANIFEST).session).toEqual(raw.session);
+    });
+});
@@ -0,0 +1,119 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Migrator, loadMigrations, type Migration } from "@/services/database/index.js";
+import { MIGRATIONS_DIR, createLogger, createTestDatabase } from "./helpers.js";
+
+describe("loadMigrations", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "migrations-"));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("orders files by version and checksums their contents", async () => {
+        await writeFile(join(dir, "010_second.sql"), "SELECT 2;");
+        await writeFile(join(dir, "002_first.sql"), "SELECT 1;");
+        await writeFile(join(dir, "README.md"), "ignored");
+
+        const migrations = await loadMigrations(dir);
+
+        expect(migrations.map(migration => [migration.version, migration.name])).toEqual([[2, "first"], [10, "second"]]);
+        expect(migrations[0]!.checksum).toMatch(/^[0-9a-f]{64}$/);
+        expect(migrations[0]!.checksum).not.toBe(migrations[1]!.checksum);
+    });
+
+    it("rejects badly named files", async () => {
+        await writeFile(join(dir, "first.sql"), "SELECT 1;");
+
+        await expect(loadMigrations(dir)).rejects.toThrow(/Invalid migration file name "first.sql"/);
+    });
+
+    it("rejects duplicate versions", async () => {
+        await writeFile(join(dir, "001_a.sql"), "SELECT 1;");
+        await writeFile(join(dir, "1_b.sql"), "SELECT 2;");
+
+        await expect(loadMigrations(dir)).rejects.toThrow("Duplicate migration version 1");
+    });
+
+    it("loads the migrations shipped with the bot", async () => {
+        const migrations = await loadMigrations(MIGRATIONS_DIR);
+
+        expect(migrations.length).toBeGreaterThan(0);
+        expect(migrations.map(migration => migration.version)).toEqual(migrations.map((_, index) => index + 1));
+    });
+});
+
+describe("Migrator", () => {
+    const migration = (version: number, sql: string): Migration => ({
+        version,
+        name: `step_${version}`,
+        sql,
+        checksum: `checksum_${version}_${sql.length}`,
+    });
+
+    const first = migration(1, "CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT);");
+    const second = migration(2, "ALTER TABLE notes ADD COLUMN author TEXT;");
+
+    it("applies pending migrations in order and records them", async () => {
+        const { db } = createTestDatabase();
+        const migrator = new Migrator(db, createLogger());
+
+        const ran = await migrator.migrate([first, second]);
+
+        expect(ran).toEqual([first, second]);
+        expect(await migrator.getApplied()).toEqual([
+            { version: 1, name: "step_1", checksum: first.checksum },
+            { version: 2, name: "step_2", checksum: second.checksum },
+        ]);
+        await db.query("INSERT INTO notes (id, body, author) VALUES (1, 'hi', 'me')");
+    });
+
+    it("skips migrations that were already applied", async () => {
+        const { db } = createTestDatabase();
+        const migrator = new Migrator(db, createLogger());
+
+        await migrator.migrate([first]);
+        const ran = await migrator.migrate([first, second]);
+
+        expect(ran).toEqual([second]);
+        expect(await migrator.migrate([first, second])).toEqual([]);
+    });
+
+    it("refuses to run when an applied migration was modified", async () => {
+        const { db } = createTestDatabase();
+        const migrator = new Migrator(db, createLogger());
+
+        await migrator.migrate([first]);
+        const edited = { ...first, checksum: "edited" };
+
+        await expect(migrator.migrate([edited, second])).rejects.toThrow("Migration 001_step_1 was modified after being applied");
+        expect((await migrator.getApplied()).map(row => row.version)).toEqual([1]);
+    });
+
+    it("warns about applied migrations missing from the build", async () => {
+        const logger = createLogger();
+        const warn = vi.spyOn(logger, "warn");
+        const { db } = createTestDatabase(logger);
+        const migrator = new Migrator(db, logger);
+
+        await migrator.migrate([first, second]);
+        await migrator.migrate([first]);
+
+        expect(warn).toHaveBeenCalledWith("Database has migration 002_step_2 which is missing from this build");
+    });
+
+    it("applies the migrations shipped with the bot", async () => {
+        const { db } = createTestDatabase();
+        const migrations = await loadMigrations(MIGRATIONS_DIR);
+
+        const ran = await new Migrator(db, createLogger()).migrate(migrations);
+
+        expect(ran).toHaveLength(migrations.length);
+    });
+});
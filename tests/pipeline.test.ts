@@ -0,0 +1,119 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { PreprocessPipeline, createStep, type PipelinePreprocessConfig } from "@/services/pipeline/index.js";
+import { InferenceError, InvalidInputError } from "@/errors/app.errors.js";
+import { createLogger } from "./helpers.js";
+
+const solid = (width: number, height: number, background: string): Promise<Buffer> =>
+    sharp({ create: { width, height, channels: 3, background } }).png().toBuffer();
+
+/**
+ * PNG from interleaved raw pixels
+ */
+const fromPixels = (pixels: number[], width: number, height: number, channels: 3 | 4): Promise<Buffer> =>
+    sharp(Buffer.from(pixels), { raw: { width, height, channels } }).png().toBuffer();
+
+const pipeline = (config: PipelinePreprocessConfig): PreprocessPipeline => new PreprocessPipeline(config, createLogger());
+
+const GRAY = 114 / 255;
+
+describe("PreprocessPipeline", () => {
+    it("letterboxes, normalizes and reorders into a planar tensor", async () => {
+        const result = await pipeline({
+            width: 4,
+            height: 4,
+            channels: 3,
+            layout: "NCHW",
+            steps: [{ op: "letterbox" }, { op: "normalize" }, { op: "reorder", layout: "NCHW" }],
+        }).preprocess(await solid(4, 2, "#ff0000"));
+
+        const plane = (channel: number) => Array.from(result.data.subarray(channel * 16, (channel + 1) * 16));
+        const row = (value: number) => [value, value, value, value];
+
+        expect(plane(0)).toEqual([...row(GRAY), ...row(1), ...row(1), ...row(GRAY)].map(v => expect.closeTo(v, 5)));
+        expect(plane(1)).toEqual([...row(GRAY), ...row(0), ...row(0), ...row(GRAY)].map(v => expect.closeTo(v, 5)));
+        expect(result.metadata).toMatchObject({
+            steps: ["letterbox", "normalize", "reorder"],
+            layout: "NCHW",
+            transform: { scaleX: 1, scaleY: 1, padX: 0, padY: 1, originalWidth: 4, originalHeight: 2 },
+        });
+    });
+
+    it("composes the transforms of consecutive geometric steps", async () => {
+        const result = await pipeline({
+            width: 2,
+            height: 2,
+            channels: 3,
+            steps: [{ op: "crop", width: 4, height: 4 }, { op: "resize" }],
+        }).preprocess(await solid(6, 4, "#ffffff"));
+
+        expect(result.metadata!.transform).toEqual({
+            scaleX: 0.5,
+            scaleY: 0.5,
+            padX: -0.5,
+            padY: 0,
+            originalWidth: 6,
+            originalHeight: 4,
+        });
+        // Ending on pixels scales them to [0, 1]
+        expect(Array.from(result.data)).toEqual(new Array(12).fill(1));
+    });
+
+    it("builds an alpha mask", async () => {
+        const image = await fromPixels([0, 0, 0, 0, 0, 0, 0, 255], 2, 1, 4);
+        const config = { width: 2, height: 1, channels: 1 } as const;
+
+        const mask = await pipeline({ ...config, steps: [{ op: "alphaMask" }] }).preprocess(image);
+        const inverted = await pipeline({ ...config, steps: [{ op: "alphaMask", invert: true }] }).preprocess(image);
+
+        expect(Array.from(mask.data)).toEqual([1, 0]);
+        expect(Array.from(inverted.data)).toEqual([0, 1]);
+    });
+
+    it("runs custom steps alongside declared ones", async () => {
+        const result = await pipeline({
+            width: 1,
+            height: 1,
+            channels: 3,
+            steps: [
+                { op: "resize" },
+                { name: "invert", apply: state => ({ ...state, pixels: Buffer.from(state.pixels!.map(value => 255 - value)) }) },
+            ],
+        }).preprocess(await solid(3, 3, "#ffffff"));
+
+        expect(Array.from(result.data)).toEqual([0, 0, 0]);
+    });
+
+    it("rejects output that does not match the model input", async () => {
+        const run = pipeline({ width: 4, height: 4, channels: 3, steps: [{ op: "resize", width: 2 }] }).preprocess(await solid(4, 4, "#000000"));
+
+        await expect(run).rejects.toThrow(new InferenceError("Preprocessing pipeline produced 2x4x3, model expects 4x4x3"));
+    });
+
+    it("asks for a reorder step when the layout does not match", async () => {
+        const run = pipeline({ width: 2, height: 2, channels: 3, layout: "NCHW", steps: [{ op: "normalize" }] })
+            .preprocess(await solid(2, 2, "#000000"));
+
+        await expect(run).rejects.toThrow(/add a "reorder" step/);
+    });
+
+    it("names the step that failed", async () => {
+        const run = pipeline({ width: 2, height: 2, channels: 3, steps: [{ op: "reorder", layout: "NCHW" }] })
+            .preprocess(await solid(2, 2, "#000000"));
+
+        await expect(run).rejects.toBeInstanceOf(InferenceError);
+        await expect(run).rejects.toMatchObject({ details: { step: "reorder" } });
+    });
+
+    it("rejects input that is not an image", async () => {
+        const run = pipeline({ width: 2, height: 2, channels: 3, steps: [] }).preprocess(Buffer.from("not an image"));
+
+        await expect(run).rejects.toBeInstanceOf(InvalidInputError);
+    });
+});
+
+describe("createStep", () => {
+    it("rejects unknown steps", () => {
+        expect(() => createStep({ op: "blur" } as never)).toThrow(/Unknown preprocessing step "blur"/);
+    });
+});
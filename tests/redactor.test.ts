@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { Redactor } from "@/services/redaction/index.js";
+
+describe("Redactor", () => {
+    const redactor = new Redactor({ secrets: ["super-secret-value"] });
+
+    it("keeps the captured prefix of string replacements", () => {
+        expect(redactor.redact("postgres://bot:hunter22@db:5432/app")).toBe("postgres://bot:[REDACTED]@db:5432/app");
+        expect(redactor.redact("https://cdn.discordapp.com/a.png?ex=1&hm=abc")).toBe("https://cdn.discordapp.com/a.png?ex=[REDACTED]&hm=[REDACTED]");
+    });
+
+    it("runs replacer functions on user URLs", () => {
+        expect(redactor.redact("see https://example.com/private/cat.png")).toBe("see https://example.com/[REDACTED]");
+    });
+
+    it("masks literal secrets", () => {
+        expect(redactor.redact("token=super-secret-value")).toBe("token=[REDACTED]");
+    });
+
+    it("passes every group to custom replacers", () => {
+        const custom = new Redactor({
+            rules: [{ name: "user", pattern: /user=(\w+)/g, replacement: (_match, name) => `user=${name!.length}` }],
+        });
+
+        expect(custom.redact("user=alice user=bob")).toBe("user=5 user=3");
+    });
+
+    it("redacts nested values without changing their shape", () => {
+        expect(redactor.redactValue({ url: ["https://example.com/x"], count: 2 })).toEqual({ url: ["https://example.com/[REDACTED]"], count: 2 });
+    });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { QuotaExceededError, UserService, isOwnerId, type TierQuotas } from "@/services/user/index.js";
+import type { DatabaseService } from "@/services/database/index.js";
+import type { LoggerService } from "@/services/logger.service.js";
+import { createLogger, createMigratedDatabase } from "./helpers.js";
+
+const QUOTAS: TierQuotas = {
+    free: { solve: { daily: 2, monthly: 3 } },
+    paid: { solve: { daily: 100 } },
+    owner: {},
+};
+
+const alice = { id: "100", username: "alice" };
+const day1 = new Date("2026-03-10T12:00:00Z");
+const day2 = new Date("2026-03-11T12:00:00Z");
+
+describe("UserService usage quotas", () => {
+    let db: DatabaseService;
+    let logger: LoggerService;
+    let users: UserService;
+
+    beforeEach(async () => {
+        logger = createLogger();
+        ({ db } = await createMigratedDatabase(logger));
+        users = new UserService({ quotas: QUOTAS, ownerIds: ["1"] }, db, logger);
+    });
+
+    it("counts every reserved use against the day and the month", async () => {
+        const first = await users.reserveUsage(alice, "solve", day1);
+        const second = await users.reserveUsage(alice, "solve", day1);
+
+        expect(first).toMatchObject({ allowed: true, daily: { used: 1, limit: 2 }, monthly: { used: 1, limit: 3 } });
+        expect(second).toMatchObject({ allowed: false, exceeded: "day", daily: { used: 2 }, monthly: { used: 2 } });
+        expect(second.daily.resetsAt).toEqual(new Date("2026-03-11T00:00:00Z"));
+        expect(second.monthly.resetsAt).toEqual(new Date("2026-04-01T00:00:00Z"));
+    });
+
+    it("rejects a use past the daily limit without counting it", async () => {
+        await users.reserveUsage(alice, "solve", day1);
+        await users.reserveUsage(alice, "solve", day1);
+
+        const error = await users.reserveUsage(alice, "solve", day1).catch(error => error);
+
+        expect(error).toBeInstanceOf(QuotaExceededError);
+        expect(error.status).toMatchObject({ exceeded: "day", daily: { used: 2 } });
+        expect(await users.checkQuota(alice, "solve", day1)).toMatchObject({ daily: { used: 2 }, monthly: { used: 2 } });
+    });
+
+    it("starts a new day but keeps counting the month", async () => {
+        await users.reserveUsage(alice, "solve", day1);
+        await users.reserveUsage(alice, "solve", day1);
+
+        const status = await users.reserveUsage(alice, "solve", day2);
+
+        expect(status).toMatchObject({ allowed: false, exceeded: "month", daily: { used: 1 }, monthly: { used: 3 } });
+        await expect(users.reserveUsage(alice, "solve", day2)).rejects.toMatchObject({ status: { exceeded: "month" } });
+    });
+
+    it("gives a released use back to the day and month it was reserved in", async () => {
+        await users.reserveUsage(alice, "solve", day1);
+        await users.reserveUsage(alice, "solve", day2);
+
+        await users.releaseUsage(alice.id, "solve", day1);
+
+        expect(await users.checkQuota(alice, "solve", day1)).toMatchObject({ daily: { used: 0 }, monthly: { used: 1 } });
+        expect(await users.checkQuota(alice, "solve", day2)).toMatchObject({ daily: { used: 1 }, monthly: { used: 1 } });
+    });
+
+    it("never releases below zero", async () => {
+        await users.reserveUsage(alice, "solve", day1);
+
+        await users.releaseUsage(alice.id, "solve", day1);
+        await users.releaseUsage(alice.id, "solve", day1);
+
+        expect(await users.checkQuota(alice, "solve", day1)).toMatchObject({ daily: { used: 0 }, monthly: { used: 0 } });
+    });
+
+    it("logs instead of throwing when a release fails", async () => {
+        const warn = vi.spyOn(logger, "warn");
+        vi.spyOn(db, "query").mockRejectedValueOnce(new Error("connection lost"));
+
+        await expect(users.releaseUsage(alice.id, "solve", day1)).resolves.toBeUndefined();
+        expect(warn).toHaveBeenCalledWith(`Failed to release /solve usage of ${alice.id}:`, expect.any(Error));
+    });
+
+    it("applies per-user overrides on top of the tier limits", async () => {
+        await users.setQuotaOverride(alice.id, "solve", { daily: 5, monthly: null });
+
+        const status = await users.reserveUsage(alice, "solve", day1);
+
+        expect(status).toMatchObject({ daily: { limit: 5 }, monthly: { limit: 3 } });
+    });
+
+    it("does not limit owners", async () => {
+        const owner = { id: "1", username: "owner" };
+
+        for (let i = 0; i < 5; i++) {
+            await users.reserveUsage(owner, "solve", day1);
+        }
+
+        expect(await users.checkQuota(owner, "solve", day1)).toMatchObject({
+            allowed: true,
+            tier: "owner",
+            daily: { used: 5, limit: null },
+        });
+    });
+
+    it("falls back to the free tier once a paid tier expires", async () => {
+        await users.setTier(alice.id, "paid", new Date(Date.now() - 1000));
+
+        expect(await users.reserveUsage(alice, "solve", day1)).toMatchObject({ tier: "free", daily: { limit: 2 } });
+    });
+});
+
+describe("isOwnerId", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("reads the owners from OWNER_IDS and follows changes to it", () => {
+        vi.stubEnv("OWNER_IDS", " 1, 2 ,");
+
+        expect(isOwnerId("1")).toBe(true);
+        expect(isOwnerId("2")).toBe(true);
+        expect(isOwnerId("3")).toBe(false);
+
+        vi.stubEnv("OWNER_IDS", "3");
+
+        expect(isOwnerId("1")).toBe(false);
+        expect(isOwnerId("3")).toBe(true);
+    });
+});
@@ -0,0 +1,87 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { YOLODecoder, YOLOPreprocessor } from "@/services/yolo/index.js";
+import type { ImageTransform } from "@/services/interfaces/preprocessor.interface.js";
+import { createLogger } from "./helpers.js";
+
+type Box = [cx: number, cy: number, w: number, h: number, objectness: number, ...scores: number[]];
+
+/**
+ * v5 output rows for two classes
+ */
+const v5 = (...boxes: Box[]): Float32Array => Float32Array.from(boxes.flat());
+
+/**
+ * v8 output columns for two classes, from the same rows without objectness
+ */
+const v8 = (...boxes: Box[]): Float32Array => {
+    const rows = boxes.map(([cx, cy, w, h, , ...scores]) => [cx, cy, w, h, ...scores]);
+    return Float32Array.from(rows[0]!.flatMap((_, attribute) => rows.map(row => row[attribute]!)));
+};
+
+const decoder = new YOLODecoder({ numClasses: 2, classNames: ["cat", "dog"] });
+
+describe("YOLODecoder", () => {
+    it("suppresses overlapping boxes of the same class but keeps other classes", () => {
+        const output = v5(
+            [50, 50, 20, 20, 0.9, 0.9, 0.1],
+            [52, 52, 20, 20, 0.9, 0.8, 0.1],
+            [50, 50, 20, 20, 0.9, 0.1, 0.7],
+            [90, 90, 10, 10, 0.9, 0.6, 0.1]
+        );
+
+        const results = decoder.decode(output, { format: "v5" });
+
+        expect(results.map(result => [result.value.class, result.position])).toEqual([
+            ["cat", 0],
+            ["dog", 2],
+            ["cat", 3],
+        ]);
+        expect(results[0]!.confidence).toBeCloseTo(0.81);
+        expect(results[0]!.value).toMatchObject({ x: 40, y: 40, width: 20, height: 20 });
+    });
+
+    it("keeps boxes of the same class that barely overlap", () => {
+        const results = decoder.decode(v5([50, 50, 20, 20, 0.9, 0.9, 0], [65, 50, 20, 20, 0.9, 0.8, 0]), { format: "v5" });
+
+        expect(results).toHaveLength(2);
+    });
+
+    it("drops boxes below the confidence threshold", () => {
+        const results = decoder.decode(v5([50, 50, 20, 20, 0.5, 0.4, 0.1]), { format: "v5" });
+
+        expect(results).toEqual([]);
+    });
+
+    it("decodes the transposed v8 layout from the output shape", () => {
+        const boxes: Box[] = [[50, 50, 20, 20, 1, 0.1, 0.9], [52, 52, 20, 20, 1, 0.1, 0.8], [20, 20, 10, 10, 1, 0.7, 0.2]];
+
+        const results = decoder.decode(v8(...boxes), { outputShape: [1, 6, 3] });
+
+        expect(results.map(result => [result.value.class, result.position])).toEqual([["dog", 0], ["cat", 2]]);
+        expect(results[0]!.confidence).toBeCloseTo(0.9);
+    });
+
+    it("caps the number of detections", () => {
+        const output = v5([10, 10, 5, 5, 0.9, 0.9, 0], [30, 30, 5, 5, 0.9, 0.8, 0], [60, 60, 5, 5, 0.9, 0.7, 0]);
+
+        expect(decoder.decode(output, { format: "v5", maxDetections: 2 })).toHaveLength(2);
+    });
+
+    it("maps boxes back through the letterbox to the original image", async () => {
+        const image = await sharp({ create: { width: 200, height: 100, channels: 3, background: "#ffffff" } }).png().toBuffer();
+        const preprocessor = new YOLOPreprocessor({ width: 100, height: 100 }, createLogger());
+
+        const { metadata } = await preprocessor.preprocess(image);
+        const transform = metadata!.transform as ImageTransform;
+
+        expect(transform).toMatchObject({ scaleX: 0.5, scaleY: 0.5, padX: 0, padY: 25 });
+
+        // Model coordinates (40, 45)-(60, 55), and a box running past the left edge into the bottom padding
+        const output = v5([50, 50, 20, 10, 0.9, 0.9, 0], [5, 75, 20, 10, 0.9, 0, 0.9]);
+        const [inside, clipped] = decoder.decode(output, { format: "v5", transform });
+
+        expect(inside!.value).toMatchObject({ x: 80, y: 40, width: 40, height: 20 });
+        expect(clipped!.value).toMatchObject({ x: 0, y: 90, width: 30, height: 10 });
+    });
+});